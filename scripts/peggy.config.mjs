@@ -4,6 +4,8 @@ export default {
   output: 'src/grammar.js',
   format: 'es',
   dts: true,
+  // Memoize rule results, as nested parentheses and sets are otherwise parsed an exponential number of times
+  cache: true,
   returnTypes: {
     foo: 'string',
   },
@@ -1,14 +1,78 @@
-import { DistributionError } from './errors';
-import { ASTBinOp, ASTDice, ASTLiteral, ASTNode, ASTParenthetical, ASTUnOp, DiceOperation, Selector, selectorMatches } from './parser';
-import { cartesianProduct, convolve, range, sum } from './util';
+import { DistributionError, TooManyDiceError, TooManyOutcomesError, TooManySidesError, TooManyStatesError, UnsupportedDistributionError } from './errors';
+import { DefaultLimits, Limits, resolveLimits } from './limits';
+import { AdvantageOptions, ASTAdvantage, ASTBinOp, ASTDice, ASTFunction, ASTLiteral, ASTNode, ASTParenthetical, ASTSet, ASTUnOp, ASTVariable, callFunction, CriticalOptions, criticalThresholds, DiceOperation, DieFaces, isCountingOperation, resolveVariable, Selector, selectorMatches, Variables } from './parser';
+import { withAdvantage } from './transform';
+import { Rational } from './rational';
+import { Roller, RollerOptions } from './roll';
+import { bigBinomial, binomial, convolve, convolvePower, normalQuantile, range, regularizedGammaQ, sum } from './util';
 
-const DiceLimits = 101 * 101; //Allow 100d100, but nothing more
-const OperationLimits = 8192;
+// Order statistics take far less time per step than enumerated states, so they may take this many steps per allowed state
+const OrderStatisticStepsPerState = 40;
+
+export interface DistributionOptions {
+  // The maximum number of times a single die can explode, at most maxExplodeDepth of the limits, the probability of exploding further is reported by residual()
+  explodeDepth?: number;
+  // Explosions stop early once the probability of a single die exploding further drops below this value
+  explodeEpsilon?: number;
+  // Values of the variables in the expression
+  variables?: Variables;
+  // Rolls the whole expression with advantage or disadvantage
+  advantage?: AdvantageOptions;
+  // Limits on the size of dice and the number of states kept while calculating the distribution
+  limits?: Limits;
+  // Calculates the probabilities exactly with rational numbers, which are only converted to floats at the end
+  exact?: boolean;
+  // Estimates the distribution by rolling the expression when it is too large or cannot be calculated
+  fallback?: boolean | SampleOptions;
+}
+
+// The result of a chi-square goodness of fit test of observed roll counts against a distribution
+export interface ChiSquareResult {
+  statistic: number;
+  degreesOfFreedom: number;
+  // The probability of a statistic at least this large if the rolls follow the distribution
+  pValue: number;
+}
+
+export interface SampleOptions extends RollerOptions {
+  // The number of times the expression is rolled, defaults to 10000
+  iterations?: number;
+}
+
+// Rerolls and explosions may roll every die of a sampled expression this many times, unless maxRolls is given
+const SampleRollsPerDie = 10;
+
+const DefaultExplodeDepth = 100;
+const DefaultExplodeEpsilon = 1e-12;
+const QuantileEpsilon = 1e-12;
+const DefaultSampleIterations = 10_000;
+const DominanceEpsilon = 1e-12;
 
 function id<T>(v: T): T {
   return v;
 }
 
+// The keys of the probabilities of a distribution, from low to high
+function sortedKeys(values: Map<number, unknown>): number[] {
+  const keys = Array.from(values.keys());
+  keys.sort((a, b) => a - b);
+  return keys;
+}
+
+function minKey(values: Map<number, unknown>): number {
+  // Spreading the keys into Math.min overflows the stack for large distributions
+  return Array.from(values.keys()).reduce((a, b) => Math.min(a, b), Infinity);
+}
+
+function maxKey(values: Map<number, unknown>): number {
+  return Array.from(values.keys()).reduce((a, b) => Math.max(a, b), -Infinity);
+}
+
+// Subtracts the sum of the probabilities of a distribution from 1
+function missingProbability<P>(values: Map<number, P>, probabilities: Probabilities<P>): P {
+  return probabilities.sub(probabilities.one, Array.from(values.values()).reduce(probabilities.add, probabilities.zero));
+}
+
 export class Distribution {
   private readonly values: Map<number, number>;
 
@@ -18,68 +82,75 @@ export class Distribution {
     this.values = values;
   }
 
-  public static uniform(count: number, sides: number): Distribution {
-    if (count === 0 || sides === 0) {
-      return new Distribution();
-    }
-
-    const min = count;
-    const max = count * sides;
-
-    const convolution = Array(sides).fill(1 / sides);
-    let result = [...convolution];
+  public static uniform(count: number, sides: number | DieFaces): Distribution {
+    if (sides instanceof DieFaces) {
+      if (sides.isStandard()) return Distribution.uniform(count, sides.sides);
 
-    for (let _ = 0; _ < count - 1; _++) {
-      result = convolve(result, convolution);
+      // Faces that appear more than once are proportionally more likely
+      const face = new Map<number, number>();
+      for (const value of sides.values) {
+        face.set(value, (face.get(value) ?? 0) + 1 / sides.sides);
+      }
+      return Distribution.repeat(new Distribution(face), count);
     }
 
-    const map = new Map<number, number>();
-    for (let i = min; i <= max; i++) {
-      map.set(i, result[i - min]);
+    if (count === 0 || sides === 0) {
+      return new Distribution();
     }
-    return new Distribution(map);
+
+    return fromDense(count, convolvePower(Array(sides).fill(1 / sides), count));
   }
 
-  public static fromAST(node: ASTNode): Distribution {
-    if (node instanceof ASTLiteral) {
-      return new Distribution(new Map([[node.value, 1.0]]));
+  public static fromAST(node: ASTNode, options: DistributionOptions = {}): Distribution {
+    if (options.fallback) {
+      const { fallback, ...rest } = options;
+      try {
+        return Distribution.fromAST(node, rest);
+      } catch (error) {
+        if (!(error instanceof TooManyStatesError || error instanceof TooManyOutcomesError || error instanceof UnsupportedDistributionError)) throw error;
+        const sampling = fallback === true ? {} : fallback;
+        return Distribution.sample(node, { variables: options.variables, advantage: options.advantage, limits: options.limits, ...sampling });
+      }
     }
 
-    if (node instanceof ASTDice) {
-      return calculateDiceDistribution(node);
+    if (options.exact) {
+      return ExactDistribution.fromAST(node, options).toDistribution();
     }
 
-    if (node instanceof ASTParenthetical) {
-      return Distribution.fromAST(node.value);
-    }
+    return calculateDistribution(node, options, FloatKind);
+  }
 
-    if (node instanceof ASTUnOp) {
-      if (node.op === '+') return Distribution.fromAST(node.value);
-      if (node.op === '-') return Distribution.neg(Distribution.fromAST(node.value));
-      throw new DistributionError(`Distribution: unsupported UnOp operator '${node.op}'`);
+  // Estimates the distribution of an expression by rolling it many times, see SampledDistribution
+  public static sample(node: ASTNode, options: SampleOptions = {}): SampledDistribution {
+    const iterations = options.iterations ?? DefaultSampleIterations;
+    if (!Number.isInteger(iterations) || iterations < 1) {
+      throw new DistributionError(`An expression has to be sampled a positive number of times, but ${iterations} was given!`);
     }
 
-    if (node instanceof ASTBinOp) {
-      const left = Distribution.fromAST(node.left);
-      const right = Distribution.fromAST(node.right);
-
-      if (node.op === '+') return Distribution.add(left, right);
-      if (node.op === '-') return Distribution.sub(left, right);
-      if (node.op === '*') return Distribution.mul(left, right);
-      if (node.op === '/') return Distribution.div(left, right);
-      if (node.op === '%') return Distribution.mod(left, right);
-      if (node.op === '//') return Distribution.div(left, right);
-
-      throw new DistributionError(`Distribution: unsupported BinOp operator '${node.op}'`);
+    // The default limit on the number of rolls is too low for large expressions, which can't be calculated otherwise
+    const dice = countDice(options.advantage === undefined ? node : withAdvantage(node, options.advantage));
+    const maxRolls = options.limits?.maxRolls ?? Math.max(DefaultLimits.maxRolls, SampleRollsPerDie * dice);
+    const roller = new Roller({ ...options, limits: { ...options.limits, maxRolls } });
+    const counts = new Map<number, number>();
+    for (let i = 0; i < iterations; i++) {
+      const total = roller.roll(node).total();
+      counts.set(total, (counts.get(total) ?? 0) + 1);
     }
+    return new SampledDistribution(counts, iterations);
+  }
+
+  // The probability that any of the kept dice in the expression is a critical hit, by default a d20 showing a 20
+  public static criticalChance(node: ASTNode, options: DistributionOptions & CriticalOptions = {}): number {
+    return calculateCriticalChance(node, options, false);
+  }
 
-    throw new DistributionError(`Distribution: unsupported node type '${node.constructor.name}'`);
+  // The probability that any of the kept dice in the expression is a fumble, by default a d20 showing a 1
+  public static fumbleChance(node: ASTNode, options: DistributionOptions & CriticalOptions = {}): number {
+    return calculateCriticalChance(node, options, true);
   }
 
   public keys(): number[] {
-    const keys = Array.from(this.values.keys());
-    keys.sort((a, b) => a - b);
-    return keys;
+    return sortedKeys(this.values);
   }
 
   public get(key: number): number {
@@ -87,11 +158,22 @@ export class Distribution {
   }
 
   public min(): number {
-    return Math.min(...this.keys());
+    return minKey(this.values);
   }
 
   public max(): number {
-    return Math.max(...this.keys());
+    return maxKey(this.values);
+  }
+
+  // Whether the probabilities are estimated instead of calculated, see SampledDistribution
+  public isApproximate(): boolean {
+    return false;
+  }
+
+  // The probability that is missing from the distribution, e.g. because explosions were cut off
+  public residual(): number {
+    // Rounding errors can make the probabilities add up to slightly more than 1
+    return Math.max(0, missingProbability(this.values, FloatProbabilities));
   }
 
   public entries(): [number, number][] {
@@ -102,12 +184,155 @@ export class Distribution {
     return sum(this.entries().map(([key, value]) => mapping(key) * value));
   }
 
+  public variance(): number {
+    // variance = E((X - E(X))^2), which is more accurate than E(X^2) - E(X)^2 for large values
+    const mean = this.mean();
+    return this.mean((v) => Math.pow(v - mean, 2));
+  }
+
   public stddev(): number {
-    // variance = E(X^2) - E(X)^2
-    // stddev = sqrt(variance)
-    const e_x2 = this.mean((v) => v * v);
-    const ex_2 = Math.pow(this.mean(), 2);
-    return Math.sqrt(e_x2 - ex_2);
+    return Math.sqrt(this.variance());
+  }
+
+  // The third standardized moment, which is positive when the distribution has a long tail of high values
+  public skewness(): number {
+    const mean = this.mean();
+    return this.mean((v) => Math.pow(v - mean, 3)) / Math.pow(this.variance(), 1.5);
+  }
+
+  // The excess kurtosis, i.e. the fourth standardized moment minus 3, which is 0 for a normal distribution
+  public kurtosis(): number {
+    const mean = this.mean();
+    return this.mean((v) => Math.pow(v - mean, 4)) / Math.pow(this.variance(), 2) - 3;
+  }
+
+  // P(X <= k)
+  public cdf(k: number): number {
+    return sum(this.entries().map(([key, value]) => (key <= k ? value : 0)));
+  }
+
+  // P(X > k)
+  public sf(k: number): number {
+    return sum(this.entries().map(([key, value]) => (key > k ? value : 0)));
+  }
+
+  // P(X >= k)
+  public atLeast(k: number): number {
+    return sum(this.entries().map(([key, value]) => (key >= k ? value : 0)));
+  }
+
+  // P(a <= X <= b)
+  public between(a: number, b: number): number {
+    return sum(this.entries().map(([key, value]) => (a <= key && key <= b ? value : 0)));
+  }
+
+  // The smallest outcome k for which P(X <= k) >= p
+  public quantile(p: number): number {
+    if (!(p >= 0 && p <= 1)) {
+      throw new DistributionError(`A quantile has to be between 0 and 1, but ${p} was given!`);
+    }
+
+    let cumulative = 0;
+    for (const key of this.keys()) {
+      cumulative += this.get(key);
+      // Allow for rounding errors in the cumulative probability, e.g. 0.49999999999999994 for a median
+      if (cumulative >= p - QuantileEpsilon) return key;
+    }
+    // The cumulative probability can stay below p when part of the distribution is missing, see residual()
+    return this.max();
+  }
+
+  public median(): number {
+    return this.quantile(0.5);
+  }
+
+  // The most likely outcome, preferring the lowest outcome when there is a tie
+  public mode(): number {
+    let mode = this.min();
+    for (const key of this.keys()) {
+      if (this.get(key) > this.get(mode)) mode = key;
+    }
+    return mode;
+  }
+
+  // The distribution of the outcomes for which the predicate holds, e.g. the damage given that the attack hits
+  public given(predicate: (key: number) => boolean): Distribution {
+    const values = new Map(this.entries().filter(([key]) => predicate(key)));
+    const total = sum(Array.from(values.values()));
+    if (total === 0) {
+      throw new DistributionError('Cannot condition a distribution on an outcome with probability zero!');
+    }
+    return new Distribution(values).transformValues((value) => value / total);
+  }
+
+  // P(A > B) for independent A and B, e.g. how often 2d6 rolls higher than 1d12
+  public probabilityGreater(other: Distribution): number {
+    // Sweeps over the sorted totals of both, adding up P(A = a) * P(B < a) instead of combining every pair of totals
+    const otherKeys = other.keys();
+    let index = 0;
+    let below = 0;
+    let probability = 0;
+    for (const key of this.keys()) {
+      for (; index < otherKeys.length && otherKeys[index] < key; index++) {
+        below += other.get(otherKeys[index]);
+      }
+      probability += this.get(key) * below;
+    }
+    return probability;
+  }
+
+  // P(A = B) for independent A and B
+  public probabilityEqual(other: Distribution): number {
+    return sum(this.entries().map(([key, p]) => p * other.get(key)));
+  }
+
+  // E(A - B) for independent A and B
+  public expectedDifference(other: Distribution): number {
+    return this.mean() - other.mean();
+  }
+
+  // The total variation distance, i.e. the largest difference between the probabilities of any event
+  public totalVariation(other: Distribution): number {
+    const keys = new Set([...this.keys(), ...other.keys()]);
+    return sum(Array.from(keys, (key) => Math.abs(this.get(key) - other.get(key)))) / 2;
+  }
+
+  // The Kullback-Leibler divergence D(A || B) in nats, which is infinite when A has outcomes that B does not have
+  public klDivergence(other: Distribution): number {
+    return sum(this.entries().map(([key, p]) => (p > 0 ? p * Math.log(p / other.get(key)) : 0)));
+  }
+
+  // Whether A is stochastically greater than or equal to B (first order), i.e. P(A >= x) >= P(B >= x) for every x
+  public dominates(other: Distribution): boolean {
+    const keys = Array.from(new Set([...this.keys(), ...other.keys()])).sort((a, b) => a - b);
+    let cumulative = 0;
+    let otherCumulative = 0;
+    for (const key of keys) {
+      cumulative += this.get(key);
+      otherCumulative += other.get(key);
+      if (cumulative > otherCumulative + DominanceEpsilon) return false;
+    }
+    return true;
+  }
+
+  // Pearson's chi-square test of whether the observed number of rolls of every total fits the distribution
+  public chiSquareTest(observed: Map<number, number>): ChiSquareResult {
+    const rolls = sum(Array.from(observed.values()));
+    if (rolls === 0) {
+      throw new DistributionError('A chi-square test needs at least one observed roll!');
+    }
+
+    const outcomes = this.entries().filter(([, p]) => p > 0);
+    const degreesOfFreedom = outcomes.length - 1;
+
+    // Totals that cannot be rolled at all never fit the distribution
+    for (const [key, count] of observed.entries()) {
+      if (count > 0 && this.get(key) === 0) return { statistic: Infinity, degreesOfFreedom, pValue: 0 };
+    }
+
+    const statistic = sum(outcomes.map(([key, p]) => Math.pow((observed.get(key) ?? 0) - rolls * p, 2) / (rolls * p)));
+    const pValue = degreesOfFreedom > 0 ? regularizedGammaQ(degreesOfFreedom / 2, statistic / 2) : 1;
+    return { statistic, degreesOfFreedom, pValue };
   }
 
   public copy() {
@@ -147,28 +372,72 @@ export class Distribution {
   }
 
   public static add(a: Distribution, b: Distribution) {
+    // Distributions over consecutive integers are added by convolving their probabilities, which is much faster
+    const [da, db] = [toDense(a), toDense(b)];
+    if (da !== null && db !== null) {
+      return fromDense(da[0] + db[0], convolve(da[1], db[1]));
+    }
     return Distribution.combine(a, b, (a, b) => a + b);
   }
 
   public static sub(a: Distribution, b: Distribution) {
-    return Distribution.combine(a, b, (a, b) => a - b);
+    return Distribution.combine(a, b, BinaryOperators['-']);
   }
 
   public static mul(a: Distribution, b: Distribution) {
-    return Distribution.combine(a, b, (a, b) => a * b);
+    return Distribution.combine(a, b, BinaryOperators['*']);
   }
 
+  // Divides without rounding like `/`, e.g. 7 / 2 is 3.5, while floordiv rounds down like `//`
   public static div(a: Distribution, b: Distribution) {
-    for (const key of b.keys()) {
-      if (key === 0) {
-        throw new DistributionError('Distribution contains potential divide by zero!');
-      }
-    }
-    return Distribution.combine(a, b, (a, b) => Math.floor(a / b));
+    checkDivisor(b.keys());
+    return Distribution.combine(a, b, BinaryOperators['/']);
+  }
+
+  public static floordiv(a: Distribution, b: Distribution) {
+    return Distribution.floor(Distribution.div(a, b));
   }
 
   public static mod(a: Distribution, b: Distribution) {
-    return Distribution.combine(a, b, (a, b) => a % b);
+    return Distribution.combine(a, b, BinaryOperators['%']);
+  }
+
+  // Comparisons result in a Bernoulli distribution, where 1 means the comparison holds
+
+  public static lt(a: Distribution, b: Distribution) {
+    return Distribution.combine(a, b, BinaryOperators['<']);
+  }
+
+  public static gt(a: Distribution, b: Distribution) {
+    return Distribution.combine(a, b, BinaryOperators['>']);
+  }
+
+  public static le(a: Distribution, b: Distribution) {
+    return Distribution.combine(a, b, BinaryOperators['<=']);
+  }
+
+  public static ge(a: Distribution, b: Distribution) {
+    return Distribution.combine(a, b, BinaryOperators['>=']);
+  }
+
+  public static eq(a: Distribution, b: Distribution) {
+    return Distribution.combine(a, b, BinaryOperators['==']);
+  }
+
+  public static ne(a: Distribution, b: Distribution) {
+    return Distribution.combine(a, b, BinaryOperators['!=']);
+  }
+
+  public static repeat(dist: Distribution, count: number) {
+    // The sum of count independent copies of the distribution, calculated by repeated squaring
+    let result = new Distribution();
+    let base = dist;
+    while (count > 0) {
+      if (count % 2 === 1) result = Distribution.add(result, base);
+      count = Math.floor(count / 2);
+      if (count > 0) base = Distribution.add(base, base);
+    }
+    return result;
   }
 
   public static neg(dist: Distribution) {
@@ -186,110 +455,1122 @@ export class Distribution {
   public static disadvantage(a: Distribution) {
     return Distribution.combine(a, a, Math.min);
   }
+
+  // The distribution of the highest of count independent rolls, using P(max <= x) = P(X <= x)^count
+  public static best(dist: Distribution, count: number) {
+    const values = new Map<number, number>();
+    let cumulative = 0;
+    let previous = 0;
+    for (const key of dist.keys()) {
+      cumulative += dist.get(key);
+      const probability = Math.pow(cumulative, count);
+      values.set(key, probability - previous);
+      previous = probability;
+    }
+    return new Distribution(values);
+  }
+
+  // The distribution of the lowest of count independent rolls, using P(min >= x) = P(X >= x)^count
+  public static worst(dist: Distribution, count: number) {
+    return Distribution.neg(Distribution.best(Distribution.neg(dist), count));
+  }
 }
 
-function calculateDiceDistribution(dice: ASTDice): Distribution {
-  if (dice.operations.length > 0) {
-    return calculateDiscreteDiceDistribution(dice);
+// Converts a distribution over consecutive integers to its lowest key and the probabilities of all keys from there on
+function toDense(dist: Distribution): [number, number[]] | null {
+  const keys = dist.keys();
+  const min = keys[0];
+  if (keys.length === 0 || !keys.every((key, index) => key === min + index)) return null;
+  return [min, keys.map((key) => dist.get(key))];
+}
+
+function fromDense(min: number, values: number[]): Distribution {
+  // The fast Fourier transform can leave tiny negative rounding errors where the probability is (almost) zero
+  return new Distribution(new Map(values.map((value, index) => [min + index, Math.max(0, value)])));
+}
+
+// ===================================
+// Exact distributions
+// ===================================
+
+/**
+ * Distribution with exact rational probabilities, which do not drift like floats when many dice are added together.
+ * The probabilities can be converted to floats with toDistribution(), e.g. to calculate statistics.
+ * Dice with operations are always enumerated state by state.
+ */
+export class ExactDistribution {
+  private readonly values: Map<number, Rational>;
+
+  constructor(values?: Map<number, Rational>) {
+    if (values === undefined) values = new Map([[0, Rational.one]]);
+
+    this.values = values;
+  }
+
+  public static uniform(count: number, sides: number | DieFaces): ExactDistribution {
+    const faces = sides instanceof DieFaces ? sides : DieFaces.standard(sides);
+    if (count === 0 || faces.sides === 0) {
+      return new ExactDistribution();
+    }
+
+    if (!faces.isStandard()) {
+      const face = new ExactDistribution(new Map(faceProbabilities(faces, ExactProbabilities)));
+      return ExactDistribution.repeat(face, count);
+    }
+
+    // Counts the number of ways to roll every total, where every die adds a sliding window over the previous counts
+    const n = faces.sides;
+    let ways = [1n];
+    for (let _ = 0; _ < count; _++) {
+      const next: bigint[] = Array(ways.length + n - 1).fill(0n);
+      let window = 0n;
+      for (let t = 0; t < next.length; t++) {
+        if (t < ways.length) window += ways[t];
+        if (t >= n) window -= ways[t - n];
+        next[t] = window;
+      }
+      ways = next;
+    }
+
+    const total = BigInt(n) ** BigInt(count);
+    return new ExactDistribution(new Map(ways.map((w, t) => [count + t, new Rational(w, total)])));
+  }
+
+  public static fromAST(node: ASTNode, options: DistributionOptions = {}): ExactDistribution {
+    return calculateDistribution(node, options, ExactKind);
+  }
+
+  public keys(): number[] {
+    return sortedKeys(this.values);
+  }
+
+  public get(key: number): Rational {
+    return this.values.get(key) ?? Rational.zero;
+  }
+
+  public entries(): [number, Rational][] {
+    return Array.from(this.values.entries());
+  }
+
+  public min(): number {
+    return minKey(this.values);
+  }
+
+  public max(): number {
+    return maxKey(this.values);
+  }
+
+  // The probability that is missing from the distribution, e.g. because explosions were cut off
+  public residual(): Rational {
+    return missingProbability(this.values, ExactProbabilities);
+  }
+
+  // Converts the probabilities to floats, which are as close as possible to the exact probabilities
+  public toDistribution(): Distribution {
+    return new Distribution(new Map(this.entries().map(([key, value]) => [key, value.toNumber()])));
+  }
+
+  public static combine(a: ExactDistribution, b: ExactDistribution, func: (a: number, b: number) => number): ExactDistribution {
+    const values = new Map<number, Rational>();
+    for (const [ka, va] of a.values.entries()) {
+      for (const [kb, vb] of b.values.entries()) {
+        const key = func(ka, kb);
+        values.set(key, (values.get(key) ?? Rational.zero).add(va.mul(vb)));
+      }
+    }
+
+    return new ExactDistribution(values);
+  }
+
+  public transformKeys(func: (key: number) => number): ExactDistribution {
+    const values = new Map<number, Rational>();
+    for (const [key, value] of this.values.entries()) {
+      const newKey = func(key);
+      values.set(newKey, (values.get(newKey) ?? Rational.zero).add(value));
+    }
+
+    return new ExactDistribution(values);
+  }
+
+  public static repeat(dist: ExactDistribution, count: number): ExactDistribution {
+    // The sum of count independent copies of the distribution
+    let result = new ExactDistribution();
+    for (let i = 0; i < count; i++) {
+      result = ExactDistribution.combine(result, dist, BinaryOperators['+']);
+    }
+    return result;
+  }
+
+  // The distribution of the highest of count independent rolls, using P(max <= x) = P(X <= x)^count
+  public static best(dist: ExactDistribution, count: number): ExactDistribution {
+    const values = new Map<number, Rational>();
+    let cumulative = Rational.zero;
+    let previous = Rational.zero;
+    for (const key of dist.keys()) {
+      cumulative = cumulative.add(dist.get(key));
+      const probability = cumulative.pow(count);
+      values.set(key, probability.sub(previous));
+      previous = probability;
+    }
+    return new ExactDistribution(values);
   }
 
+  // The distribution of the lowest of count independent rolls, using P(min >= x) = P(X >= x)^count
+  public static worst(dist: ExactDistribution, count: number): ExactDistribution {
+    const neg = (key: number) => -key;
+    return ExactDistribution.best(dist.transformKeys(neg), count).transformKeys(neg);
+  }
+}
+
+// ===================================
+// Sampled distributions
+// ===================================
+
+/**
+ * Distribution estimated by rolling an expression many times, for expressions whose distribution is too large or cannot
+ * be calculated. The probability of every total is its relative frequency, with a confidence interval given by interval().
+ */
+export class SampledDistribution extends Distribution {
+  public readonly iterations: number;
+  private readonly counts: Map<number, number>;
+
+  constructor(counts: Map<number, number>, iterations: number) {
+    super(new Map(Array.from(counts.entries(), ([key, count]) => [key, count / iterations])));
+    this.counts = counts;
+    this.iterations = iterations;
+  }
+
+  public isApproximate(): boolean {
+    return true;
+  }
+
+  // The number of rolls that resulted in the total
+  public count(key: number): number {
+    return this.counts.get(key) ?? 0;
+  }
+
+  // The Wilson score interval of the probability of the total, which stays within [0, 1] for rare totals as well
+  public interval(key: number, confidence: number = 0.95): [number, number] {
+    if (!(confidence > 0 && confidence < 1)) {
+      throw new DistributionError(`A confidence level has to be between 0 and 1, but ${confidence} was given!`);
+    }
+
+    const n = this.iterations;
+    const p = this.count(key) / n;
+    const z = normalQuantile(1 - (1 - confidence) / 2);
+    const center = (p + (z * z) / (2 * n)) / (1 + (z * z) / n);
+    const margin = (z / (1 + (z * z) / n)) * Math.sqrt((p * (1 - p)) / n + (z * z) / (4 * n * n));
+    return [Math.max(0, center - margin), Math.min(1, center + margin)];
+  }
+}
+
+function checkDiceLimits(dice: ASTDice, options: DistributionOptions, exact: boolean = false): void {
+  const { maxDice, maxSides, maxOutcomes, maxExactOutcomes } = resolveLimits(options.limits);
   if (dice.sides === 0) {
     throw new DistributionError(`Cannot create a distribution of a dice with zero sides in '${dice.toString()}'!`);
   }
+  if (dice.count > maxDice) {
+    throw new TooManyDiceError(`There are more than ${maxDice} dice in '${dice.toString()}'!`, dice);
+  }
+  if (dice.sides > maxSides) {
+    throw new TooManySidesError(`There are dice with more than ${maxSides} sides in '${dice.toString()}'!`, dice);
+  }
+  // The number of different totals the dice can roll
+  const outcomes = dice.count * (dice.faces.max() - dice.faces.min()) + 1;
+  if (outcomes > (exact ? maxExactOutcomes : maxOutcomes)) {
+    throw new TooManyOutcomesError(`There are too many outcomes to calculate in '${dice.toString()}'${exact ? ' exactly' : ''}!`, dice);
+  }
+}
+
+function calculateDiceDistribution(dice: ASTDice, options: DistributionOptions): Distribution {
+  if (dice.operations.length > 0) {
+    return calculateAnalyticDiceDistribution(dice, options) ?? new Distribution(calculateDiscreteDiceDistribution(dice, options, FloatProbabilities));
+  }
+
+  checkDiceLimits(dice, options);
+
+  return Distribution.uniform(dice.count, dice.faces);
+}
 
-  if (dice.sides * dice.count > DiceLimits) {
-    throw new DistributionError(`There are too many dice to calculate in '${dice.toString()}'!`);
+function calculateExactDiceDistribution(dice: ASTDice, options: DistributionOptions): ExactDistribution {
+  checkDiceLimits(dice, options, true);
+  if (!dice.isOperated()) return ExactDistribution.uniform(dice.count, dice.faces);
+  return new ExactDistribution(calculateDiscreteDiceDistribution(dice, options, ExactProbabilities));
+}
+
+// ===================================
+// Critical hits
+// ===================================
+
+/**
+ * Calculates the probability that at least one kept die is a critical hit (or fumble). Different dice in the expression
+ * are independent, so the probability that none of them is critical is the product over the dice. For each dice
+ * expression, the number of critical dice is calculated by counting them as successes.
+ * Only the natural faces count, e.g. `1d20mi20` is only a critical hit on a natural 20.
+ */
+function calculateCriticalChance(node: ASTNode, options: DistributionOptions & CriticalOptions, fumble: boolean): number {
+  let none = 1.0;
+
+  for (const dice of collectDice(node)) {
+    const thresholds = criticalThresholds(dice.faces, options);
+    if (thresholds === null) continue;
+
+    // Critical hits depend on the natural faces, so the final mi and ma operations are left out
+    const operations = dice.operations.filter((operation) => !isCountingOperation(operation));
+    while (operations.length > 0 && ['mi', 'ma'].includes(operations[operations.length - 1].op)) {
+      operations.pop();
+    }
+    if (operations.some((operation) => ['mi', 'ma'].includes(operation.op))) {
+      throw new DistributionError(`Critical hits cannot be calculated for dice that are changed before other operations, in '${dice.toString()}'!`);
+    }
+
+    const selector = fumble ? new Selector('<', thresholds.fumble + 1) : new Selector('>', thresholds.critical - 1);
+    operations.push(new DiceOperation('cs', selector));
+    const counted = Distribution.fromAST(new ASTDice(dice.count, dice.faces, operations), options);
+    none *= counted.get(0);
   }
 
-  return Distribution.uniform(dice.count, dice.sides);
+  return 1 - none;
 }
 
-class DiscreteDistribution {
-  private readonly counts: Map<string, number>;
+// Counts the dice rolled by an expression, without rerolls and explosions
+function countDice(node: ASTNode): number {
+  if (node instanceof ASTDice) return node.count;
+  const dice = sum(node.children().map(countDice));
+  return node instanceof ASTAdvantage ? node.count * dice : dice;
+}
 
-  constructor() {
-    this.counts = new Map();
+// Collects the dice in an expression, which always count towards the total unless they are part of a set with operations
+function collectDice(node: ASTNode): ASTDice[] {
+  if (node instanceof ASTDice) return [node];
+  if (node instanceof ASTSet) {
+    const dice = node.elements.flatMap(collectDice);
+    if (dice.length > 0 && node.operations.length > 0) {
+      throw new DistributionError(`Critical hits cannot be calculated for dice in sets with operations, in '${node.toString()}'!`);
+    }
+    return dice;
   }
+  if (node instanceof ASTFunction) return node.args.flatMap(collectDice);
+  if (node instanceof ASTAdvantage && collectDice(node.value).length > 0) {
+    throw new DistributionError(`Critical hits cannot be calculated for dice rolled with ${node.mode}, in '${node.toString()}'!`);
+  }
+  if (node instanceof ASTUnOp) return collectDice(node.value);
+  if (node instanceof ASTBinOp) return [...collectDice(node.left), ...collectDice(node.right)];
+  if (node instanceof ASTParenthetical) return collectDice(node.value);
+  return [];
+}
 
-  public static fromDice(count: number, sides: number): DiscreteDistribution {
-    const distribution = new DiscreteDistribution();
-    const ranges: number[][] = [];
-    for (let i = 0; i < count; i++) {
-      ranges.push(range(1, sides));
+// ===================================
+// Analytic dice distributions
+// ===================================
+
+/**
+ * Calculates the distribution of dice with operations without enumerating the rolls. This is possible when
+ * all operations act on every die independently, optionally followed by a single keep, drop or explode operation.
+ * Returns null if the operations cannot be calculated this way.
+ */
+function calculateAnalyticDiceDistribution(dice: ASTDice, options: DistributionOptions): Distribution | null {
+  if (dice.count === 0) {
+    return new Distribution();
+  }
+
+  checkDiceLimits(dice, options);
+
+  // Rerolled and added dice are rolled as new dice, without the operations applied to the original dice
+  const raw = Distribution.uniform(1, dice.faces);
+  let face = raw;
+
+  // Counted dice can only be calculated when every die is counted independently
+  const score = countingScore(dice);
+  const operations = dice.operations.filter((operation) => !isCountingOperation(operation));
+
+  for (let i = 0; i < operations.length; i++) {
+    const operation = operations[i];
+    const applied = applyDieOperation(face, raw, operation);
+    if (applied !== null) {
+      face = applied;
+      continue;
+    }
+
+    const last = i === operations.length - 1;
+    if (score !== null) {
+      return null;
     }
-    const products = cartesianProduct(ranges);
-    for (const product of products) {
-      distribution.add(product);
+    if (last && ['k', 'p'].includes(operation.op)) {
+      return applyKeepOperation(face, dice, operation, options);
     }
-    return distribution;
+    if (last && operation.op === 'ra') {
+      return applyExplodeOnceOperation(face, raw, dice, operation);
+    }
+    if (last && operation.op === 'e' && !isOrderSelector(operation.selector)) {
+      return applyExplodeOperation(face, raw, dice, operation, options);
+    }
+
+    return null;
   }
 
-  public add(key: number[]) {
-    const serialized = DiscreteDistribution.serialize(key);
-    const current = this.counts.get(serialized) ?? 0;
-    this.counts.set(serialized, current + 1);
+  if (score !== null) {
+    face = face.transformKeys(score);
   }
+  return Distribution.repeat(face, dice.count);
+}
+
+/**
+ * Returns the score of a single die when the dice count successes and failures, or null if the dice are summed.
+ * A die matching a success selector scores 1, a die matching a failure selector -1, and a die matching both scores 0.
+ */
+function countingScore(dice: ASTDice): ((value: number) => number) | null {
+  const operations = dice.operations.filter(isCountingOperation);
+  if (operations.length === 0) return null;
 
-  public total(): number {
-    let total = 0;
-    for (const value of this.counts.values()) {
-      total += value;
+  for (const operation of operations) {
+    if (isOrderSelector(operation.selector)) throw new DistributionError(`Invalid selector type '${operation.selector.type}'for '${operation.op}' operation!`);
+  }
+
+  const matches = (value: number, op: string) => operations.some((operation) => operation.op === op && selectorMatches(operation.selector, value));
+  return (value) => Number(matches(value, 'cs')) - Number(matches(value, 'cf'));
+}
+
+// Applies an operation that acts on each die independently to the distribution of a single die
+function applyDieOperation(face: Distribution, raw: Distribution, operation: DiceOperation): Distribution | null {
+  if (['mi', 'ma'].includes(operation.op)) {
+    if (operation.selector.type !== null) throw new DistributionError(`Invalid selector type '${operation.selector.type}'for '${operation.op}' operation!`);
+    if (operation.op === 'mi') return face.transformKeys((key) => Math.max(key, operation.selector.value));
+    if (operation.op === 'ma') return face.transformKeys((key) => Math.min(key, operation.selector.value));
+  }
+
+  if (operation.op === 'rr') {
+    if (isOrderSelector(operation.selector)) throw new DistributionError(`Invalid selector type '${operation.selector.type}'for '${operation.op}' operation!`);
+
+    // Matching dice are rerolled until they no longer match, i.e. they are replaced by a new die conditioned on not matching
+    const [matched, unmatched] = partition(face, operation.selector);
+    const [, rerolled] = partition(raw, operation.selector);
+    if (mass(matched) > 0 && mass(rerolled) === 0) {
+      throw new DistributionError(`Dice would be rerolled indefinitely in '${operation.toString()}'!`);
     }
-    return total;
+    return merge(unmatched, rerolled.transformValues((value) => (value * mass(matched)) / mass(rerolled)));
+  }
+
+  if (operation.op === 'ro' && !isOrderSelector(operation.selector)) {
+    // Matching dice are replaced by a new die once
+    const [matched, unmatched] = partition(face, operation.selector);
+    return merge(unmatched, raw.transformValues((value) => value * mass(matched)));
+  }
+
+  return null;
+}
+
+function applyKeepOperation(face: Distribution, dice: ASTDice, operation: DiceOperation, options: DistributionOptions): Distribution {
+  const { type, value } = operation.selector;
+  const keep = operation.op === 'k';
+
+  if (type === 'h' || type === 'l') {
+    // Dropping the n highest dice is equal to keeping the (count - n) lowest dice, and vice versa
+    const highest = keep === (type === 'h');
+    const kept = keep ? Math.min(value, dice.count) : Math.max(dice.count - value, 0);
+    return new Distribution(keepExtremes(face.entries(), dice.count, kept, highest, FloatProbabilities, dice, options));
   }
 
-  public distribution(): Distribution {
-    const total = this.total();
-    const map = new Map<number, number>();
+  // Keeping or dropping dice by their value happens independently for each die
+  const kept = face.transformKeys((key) => (selectorMatches(operation.selector, key) === keep ? key : 0));
+  return Distribution.repeat(kept, dice.count);
+}
+
+/**
+ * Calculates the distribution of the sum of the `keep` highest (or lowest) of `count` independent values with the same
+ * distribution, e.g. dice, using order statistics. The values are visited from best to worst, choosing how many of the
+ * remaining dice show each value. As the best dice are assigned first, the kept dice are always the first `keep` dice.
+ */
+function keepExtremes<P>(face: [number, P][], count: number, keep: number, highest: boolean, probabilities: Probabilities<P>, node: ASTNode, options: DistributionOptions): Map<number, P> {
+  const { zero, one, add, mul, pow, binomial } = probabilities;
+  const faces = [...face].sort(([a], [b]) => (highest ? b - a : a - b));
+
+  const spread = Math.abs(faces[faces.length - 1][0] - faces[0][0]);
+  const work = count * count * faces.length * (keep * spread + 1);
+  if (work > OrderStatisticStepsPerState * resolveLimits(options.limits).maxStates) {
+    throw new TooManyStatesError(`Expression with modifiers '${node.toString()}' is too large to calculate!`, node);
+  }
+
+  // Maps the number of assigned dice to the distribution of the sum of the kept dice
+  let states = new Map<number, Map<number, P>>([[0, new Map([[0, one]])]]);
+
+  for (let f = 0; f < faces.length; f++) {
+    const [value, probability] = faces[f];
+    const next = new Map<number, Map<number, P>>();
 
-    for (const [key, count] of this.counts.entries()) {
-      const deserialized = sum(DiscreteDistribution.deserialize(key));
-      const currentValue = map.get(deserialized) ?? 0;
-      map.set(deserialized, currentValue + count / total);
+    for (const [used, sums] of states.entries()) {
+      const remaining = count - used;
+      // The last face has to be shown by all remaining dice
+      const start = f === faces.length - 1 ? remaining : 0;
+
+      for (let j = start; j <= remaining; j++) {
+        const weight = mul(binomial(remaining, j), pow(probability, j));
+        const kept = Math.min(used + j, keep) - Math.min(used, keep);
+        const target = next.get(used + j) ?? new Map<number, P>();
+
+        for (const [total, p] of sums.entries()) {
+          const key = total + kept * value;
+          target.set(key, add(target.get(key) ?? zero, mul(p, weight)));
+        }
+        next.set(used + j, target);
+      }
     }
 
-    return new Distribution(map);
+    states = next;
   }
 
-  private static serialize(key: number[]): string {
-    return key.map((num) => num.toString()).join(',');
+  return states.get(count) ?? new Map([[0, one]]);
+}
+
+function applyExplodeOnceOperation(face: Distribution, raw: Distribution, dice: ASTDice, operation: DiceOperation): Distribution {
+  const all = Distribution.repeat(face, dice.count);
+
+  // The order selectors always match a die, so a single die is always added
+  if (isOrderSelector(operation.selector)) {
+    return operation.selector.value > 0 ? Distribution.add(all, raw) : all;
   }
 
-  private static deserialize(key: string): number[] {
-    return key.split(',').map((num) => parseInt(num));
+  // A single die is added if at least one of the dice matches
+  const [, unmatched] = partition(face, operation.selector);
+  const none = Distribution.repeat(unmatched, dice.count);
+  const some = merge(all, none.transformValues((value) => -value));
+  return merge(none, Distribution.add(some, raw));
+}
+
+// Dice never explode more often in a distribution than they are allowed to when rolled
+function explodeDepth(options: DistributionOptions): number {
+  return Math.min(options.explodeDepth ?? DefaultExplodeDepth, resolveLimits(options.limits).maxExplodeDepth);
+}
+
+/**
+ * Every matching die adds a new die, which can in turn explode again. The chain of added dice is an infinite
+ * series, which is cut off once the probability of exploding further is negligible or the maximum depth is reached.
+ * The probability of the cut-off chains is left out of the distribution, and is reported by residual().
+ */
+function applyExplodeOperation(face: Distribution, raw: Distribution, dice: ASTDice, operation: DiceOperation, options: DistributionOptions): Distribution {
+  const depth = explodeDepth(options);
+  const epsilon = options.explodeEpsilon ?? DefaultExplodeEpsilon;
+
+  const [matched, unmatched] = partition(face, operation.selector);
+  const [explode, stop] = partition(raw, operation.selector);
+  if (mass(matched) > 0 && mass(stop) === 0) {
+    throw new DistributionError(`Dice would explode indefinitely in '${dice.toString()}'!`);
   }
 
-  public transform(transform: (rolls: number[]) => number[]): DiscreteDistribution {
-    const distribution = new DiscreteDistribution();
-    for (const key of this.counts.keys()) {
-      const deserialized = DiscreteDistribution.deserialize(key);
-      const newKey = transform(deserialized);
-      distribution.add(newKey);
+  // The chain of added dice, starting with a single added die
+  let chain = stop;
+  let remaining = mass(matched) * mass(explode);
+  for (let i = 1; i < depth && remaining > epsilon; i++) {
+    chain = merge(stop, Distribution.add(explode, chain));
+    remaining *= mass(explode);
+  }
+
+  const exploded = merge(unmatched, Distribution.add(matched, chain));
+  return Distribution.repeat(exploded, dice.count);
+}
+
+function isOrderSelector(selector: Selector): boolean {
+  return selector.type === 'h' || selector.type === 'l';
+}
+
+// Splits a distribution into the (partial) distributions of the matching and non-matching keys
+function partition(dist: Distribution, selector: Selector): [Distribution, Distribution] {
+  const matched = new Map<number, number>();
+  const unmatched = new Map<number, number>();
+  for (const [key, value] of dist.entries()) {
+    if (selectorMatches(selector, key)) {
+      matched.set(key, value);
+    } else {
+      unmatched.set(key, value);
+    }
+  }
+  return [new Distribution(matched), new Distribution(unmatched)];
+}
+
+// Adds the probabilities of two (partial) distributions together
+function merge(a: Distribution, b: Distribution): Distribution {
+  const values = new Map<number, number>(a.entries());
+  for (const [key, value] of b.entries()) {
+    values.set(key, (values.get(key) ?? 0) + value);
+  }
+  return new Distribution(values);
+}
+
+function mass(dist: Distribution): number {
+  return sum(dist.entries().map(([, value]) => value));
+}
+
+// ===================================
+// Enumerated dice distributions
+// ===================================
+
+// Dice in a pool are encoded as a single number, so that states can be sorted and serialized cheaply.
+// The value of the die is stored in the upper bits, and the dropped and exploded flags in the two lowest bits.
+const Dropped = 2;
+const Exploded = 1;
+
+function encodeDie(value: number, kept: boolean = true): number {
+  return value * 4 + (kept ? 0 : Dropped);
+}
+
+function dieValue(die: number): number {
+  return Math.floor(die / 4);
+}
+
+function isKept(die: number): boolean {
+  return (die & Dropped) === 0;
+}
+
+function isExploded(die: number): boolean {
+  return (die & Exploded) !== 0;
+}
+
+// Arithmetic on probabilities, so that dice pools can be enumerated with floats as well as with exact rationals
+interface Probabilities<P> {
+  readonly zero: P;
+  readonly one: P;
+  add(a: P, b: P): P;
+  sub(a: P, b: P): P;
+  mul(a: P, b: P): P;
+  div(a: P, b: P): P;
+  pow(a: P, exponent: number): P;
+  integer(value: number): P;
+  binomial(n: number, k: number): P;
+  toNumber(a: P): number;
+}
+
+const FloatProbabilities: Probabilities<number> = {
+  zero: 0,
+  one: 1,
+  add: (a, b) => a + b,
+  sub: (a, b) => a - b,
+  mul: (a, b) => a * b,
+  div: (a, b) => a / b,
+  pow: (a, exponent) => Math.pow(a, exponent),
+  integer: (value) => value,
+  binomial: (n, k) => binomial(n, k),
+  toNumber: (a) => a,
+};
+
+const ExactProbabilities: Probabilities<Rational> = {
+  zero: Rational.zero,
+  one: Rational.one,
+  add: (a, b) => a.add(b),
+  sub: (a, b) => a.sub(b),
+  mul: (a, b) => a.mul(b),
+  div: (a, b) => a.div(b),
+  pow: (a, exponent) => a.pow(exponent),
+  integer: (value) => new Rational(value),
+  binomial: (n, k) => new Rational(bigBinomial(n, k)),
+  toNumber: (a) => a.toNumber(),
+};
+
+// The probability of every value of a single die, where faces that appear more than once are proportionally more likely
+function faceProbabilities<P>(faces: DieFaces, probabilities: Probabilities<P>): [number, P][] {
+  const counts = new Map<number, number>();
+  for (const value of faces.values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+
+  const total = probabilities.integer(faces.sides);
+  return Array.from(counts.entries()).map(([value, count]) => [value, probabilities.div(probabilities.integer(count), total)]);
+}
+
+/**
+ * Distribution over all possible states of a pool of dice. As the order of the dice does not matter for any of the
+ * operations, a state is a sorted multiset of dice, weighted by the probability of ending up in that state.
+ * This keeps the number of states far below the number of ordered rolls, e.g. 462 states for 6d6 instead of 46656.
+ */
+class DiscreteDistribution<P> {
+  private readonly states: Map<string, [number[], P]>;
+  private readonly dice: ASTDice;
+  private readonly options: DistributionOptions;
+  private readonly probabilities: Probabilities<P>;
+  private readonly face: [number, P][];
+
+  constructor(dice: ASTDice, options: DistributionOptions, probabilities: Probabilities<P>) {
+    this.states = new Map();
+    this.dice = dice;
+    this.options = options;
+    this.probabilities = probabilities;
+    this.face = faceProbabilities(dice.faces, probabilities);
+  }
+
+  public static fromDice<P>(dice: ASTDice, options: DistributionOptions, probabilities: Probabilities<P>): DiscreteDistribution<P> {
+    const size = multisets(dice.count, dice.sides);
+    if (size > resolveLimits(options.limits).maxStates) {
+      throw new TooManyStatesError(`Dice expression with modifiers '${dice.toString()}' is too large to calculate!`, dice);
+    }
+
+    const distribution = new DiscreteDistribution(dice, options, probabilities);
+    for (const [values, probability] of distribution.roll(dice.count, distribution.face)) {
+      distribution.add(values.map((value) => encodeDie(value)), probability);
     }
     return distribution;
   }
 
-  public applyOperation(operation: DiceOperation): DiscreteDistribution {
+  public add(dice: number[], probability: P) {
+    dice.sort((a, b) => a - b);
+    const key = dice.join(',');
+    const current = this.states.get(key)?.[1] ?? this.probabilities.zero;
+    this.states.set(key, [dice, this.probabilities.add(current, probability)]);
+  }
+
+  public size(): number {
+    return this.states.size;
+  }
+
+  public mass(): P {
+    return Array.from(this.states.values()).reduce((a, [, probability]) => this.probabilities.add(a, probability), this.probabilities.zero);
+  }
+
+  // The probability of every total of the kept dice
+  public distribution(): Map<number, P> {
+    const map = new Map<number, P>();
+    const score = countingScore(this.dice) ?? id;
+
+    for (const [dice, probability] of this.states.values()) {
+      const total = sum(dice.filter(isKept).map((die) => score(dieValue(die))));
+      map.set(total, this.probabilities.add(map.get(total) ?? this.probabilities.zero, probability));
+    }
+
+    return map;
+  }
+
+  // Every possible multiset of values when rolling a number of new dice, with its probability
+  private roll(count: number, face: [number, P][]): [number[], P][] {
+    const { one, binomial, mul, pow } = this.probabilities;
+    if (count === 0) return [[[], one]];
+
+    let partial: [number[], P][] = [[[], one]];
+    for (let f = 0; f < face.length; f++) {
+      const [value, p] = face[f];
+      const next: [number[], P][] = [];
+
+      for (const [values, probability] of partial) {
+        const remaining = count - values.length;
+        // The last face has to be shown by all remaining dice
+        const start = f === face.length - 1 ? remaining : 0;
+
+        for (let j = start; j <= remaining; j++) {
+          const weight = mul(binomial(remaining, j), pow(p, j));
+          next.push([[...values, ...Array(j).fill(value)], mul(probability, weight)]);
+        }
+      }
+
+      partial = next;
+    }
+
+    return partial;
+  }
+
+  // Rerolls the matched dice of every state, where the new states are counted before enumerating any of them
+  private rerollMatched(selector: Selector, face: [number, P][]): DiscreteDistribution<P> {
+    const states = Array.from(this.states.values(), ([dice, probability]) => [dice, probability, DiscreteDistribution.select(dice, selector)] as const);
+    this.checkWork(
+      sum(
+        states.map(([dice, , indices]) => {
+          const kept = indices.filter((index) => isKept(dice[index])).length;
+          return multisets(kept, face.length) * multisets(indices.length - kept, face.length);
+        })
+      )
+    );
+
+    const distribution = new DiscreteDistribution(this.dice, this.options, this.probabilities);
+    for (const [dice, probability, indices] of states) {
+      for (const [rerolled, p] of this.reroll(dice, indices, face)) {
+        distribution.add(rerolled, this.probabilities.mul(probability, p));
+      }
+    }
+    return distribution.checked();
+  }
+
+  // Replaces the dice at the given indices with newly rolled dice, which keep the kept flag of the replaced dice
+  private reroll(dice: number[], indices: number[], face: [number, P][]): [number[], P][] {
+    if (indices.length === 0) return [[dice, this.probabilities.one]];
+
+    const rest = dice.filter((_, index) => !indices.includes(index));
+    const kept = indices.filter((index) => isKept(dice[index])).length;
+    const dropped = indices.length - kept;
+
+    const results: [number[], P][] = [];
+    for (const [a, pa] of this.roll(kept, face)) {
+      for (const [b, pb] of this.roll(dropped, face)) {
+        const rerolled = [...a.map((value) => encodeDie(value)), ...b.map((value) => encodeDie(value, false))];
+        results.push([[...rest, ...rerolled], this.probabilities.mul(pa, pb)]);
+      }
+    }
+    return results;
+  }
+
+  // Returns the indices of the dice matched by the selector, consistent with how RolledDice selects its dice
+  private static select(dice: number[], selector: Selector): number[] {
+    const indices = range(0, dice.length - 1);
+    if (!isOrderSelector(selector)) {
+      return indices.filter((index) => selectorMatches(selector, dieValue(dice[index])));
+    }
+
+    // Ties are broken by preferring dice that already exploded, which were rolled earlier than the other dice
+    const direction = selector.type === 'h' ? -1 : 1;
+    const kept = indices.filter((index) => isKept(dice[index]));
+    kept.sort((a, b) => direction * (dieValue(dice[a]) - dieValue(dice[b])) || Number(isExploded(dice[b])) - Number(isExploded(dice[a])));
+    return kept.slice(0, selector.value);
+  }
+
+  private transform(transform: (dice: number[]) => [number[], P][]): DiscreteDistribution<P> {
+    const distribution = new DiscreteDistribution(this.dice, this.options, this.probabilities);
+    for (const [dice, probability] of this.states.values()) {
+      for (const [transformed, p] of transform(dice)) {
+        distribution.add(transformed, this.probabilities.mul(probability, p));
+      }
+    }
+    return distribution.checked();
+  }
+
+  // Throws when an operation would enumerate more states than allowed, before it starts enumerating them
+  private checkWork(work: number) {
+    if (work > resolveLimits(this.options.limits).maxStates) {
+      throw new TooManyStatesError(`Dice expression with modifiers '${this.dice.toString()}' is too large to calculate!`, this.dice);
+    }
+  }
+
+  private checked(): DiscreteDistribution<P> {
+    if (this.size() > resolveLimits(this.options.limits).maxStates) {
+      throw new TooManyStatesError(`Dice expression with modifiers '${this.dice.toString()}' is too large to calculate!`, this.dice);
+    }
+    return this;
+  }
+
+  public applyOperation(operation: DiceOperation): DiscreteDistribution<P> {
+    const { op, selector } = operation;
+    const { one } = this.probabilities;
+
     // Minimum or maximum
-    if (['mi', 'ma'].includes(operation.op)) {
-      if (operation.selector.type !== null) throw new DistributionError(`Invalid selector type '${operation.selector.type}'for '${operation.op}' operation!`);
-      if (operation.op === 'mi') return this.transform((rolls) => rolls.map((roll) => Math.max(roll, operation.selector.value)));
-      if (operation.op === 'ma') return this.transform((rolls) => rolls.map((roll) => Math.min(roll, operation.selector.value)));
+    if (['mi', 'ma'].includes(op)) {
+      if (selector.type !== null) throw new DistributionError(`Invalid selector type '${selector.type}'for '${op}' operation!`);
+      const clamp = op === 'mi' ? Math.max : Math.min;
+      return this.transform((dice) => [[dice.map((die) => encodeDie(clamp(dieValue(die), selector.value), isKept(die))), one]]);
+    }
+
+    // Keep or drop
+    if (op === 'k' || op === 'p') {
+      return this.transform((dice) => {
+        const matched = new Set(DiscreteDistribution.select(dice, selector));
+        const keep = (index: number) => isKept(dice[index]) && matched.has(index) === (op === 'k');
+        return [[dice.map((die, index) => encodeDie(dieValue(die), keep(index))), one]];
+      });
     }
 
-    throw new DistributionError(`Unsupported dice operation for distribution '${operation.op}'`);
+    // Rerolls
+    if (op === 'rr') {
+      if (isOrderSelector(selector)) throw new DistributionError(`Invalid selector type '${selector.type}'for '${op}' operation!`);
+      const remaining = this.face.filter(([value]) => !selectorMatches(selector, value));
+      const total = remaining.reduce((a, [, p]) => this.probabilities.add(a, p), this.probabilities.zero);
+      const face: [number, P][] = remaining.map(([value, p]) => [value, this.probabilities.div(p, total)]);
+      if (face.length === 0 && Array.from(this.states.values()).some(([dice]) => DiscreteDistribution.select(dice, selector).length > 0)) {
+        throw new DistributionError(`Dice would be rerolled indefinitely in '${operation.toString()}'!`);
+      }
+      return this.rerollMatched(selector, face);
+    }
+    if (op === 'ro') {
+      return this.rerollMatched(selector, this.face);
+    }
+
+    // Explosions
+    if (op === 'ra') {
+      return this.transform((dice) => {
+        if (DiscreteDistribution.select(dice, selector).length === 0) return [[dice, one]];
+        return this.face.map(([value, p]) => [[...dice, encodeDie(value)], p]);
+      });
+    }
+    if (op === 'e') {
+      return this.explode(selector);
+    }
+
+    // Counting only changes how the total is calculated
+    if (isCountingOperation(operation)) {
+      return this;
+    }
+
+    throw new UnsupportedDistributionError(`Unsupported dice operation for distribution '${op}'`);
   }
-}
 
-function calculateDiscreteDiceDistribution(dice: ASTDice): Distribution {
-  if (Math.pow(dice.sides, dice.count) > OperationLimits) {
-    throw new DistributionError(`Dice expression with modifiers '${dice.toString()}' is too large to calculate!`);
+  /**
+   * Explodes the dice round by round, until no dice in a state can explode any further. States that still explode after
+   * the maximum depth, or that have a negligible probability, are left out and reported by residual().
+   */
+  private explode(selector: Selector): DiscreteDistribution<P> {
+    const { mul, toNumber } = this.probabilities;
+    const depth = explodeDepth(this.options);
+    const epsilon = this.options.explodeEpsilon ?? DefaultExplodeEpsilon;
+
+    // When every new die matches the selector, every explosion leads to another explosion
+    const infinite = !isOrderSelector(selector) && this.face.every(([value]) => selectorMatches(selector, value));
+
+    const done = new DiscreteDistribution(this.dice, this.options, this.probabilities);
+    let active: DiscreteDistribution<P> = this;
+    let work = 0;
+
+    for (let round = 0; active.size() > 0; round++) {
+      const next = new DiscreteDistribution(this.dice, this.options, this.probabilities);
+      const states = Array.from(active.states.values(), ([dice, probability]) => {
+        const exploding = DiscreteDistribution.select(dice, selector).filter((index) => !isExploded(dice[index]));
+        return [dice, probability, exploding] as const;
+      });
+
+      // Every state expands into every multiset of its new dice, which is counted before enumerating a whole round
+      if (round < depth) {
+        work += sum(states.map(([, , exploding]) => (exploding.length > 0 ? multisets(exploding.length, this.face.length) : 0)));
+        this.checkWork(work);
+      }
+
+      for (const [dice, probability, exploding] of states) {
+        if (exploding.length === 0) {
+          done.add(dice.map((die) => die & ~Exploded), probability);
+          continue;
+        }
+
+        if (infinite) {
+          throw new DistributionError(`Dice would explode indefinitely in '${this.dice.toString()}'!`);
+        }
+        if (round >= depth) continue;
+
+        const exploded = dice.map((die, index) => (exploding.includes(index) ? die | Exploded : die));
+        for (const [values, p] of this.roll(exploding.length, this.face)) {
+          // Negligible states are left out, as they would only add more and more states
+          if (toNumber(mul(probability, p)) < epsilon) continue;
+          next.add([...exploded, ...values.map((value) => encodeDie(value))], mul(probability, p));
+        }
+      }
+
+      active = next.checked();
+      if (toNumber(active.mass()) < epsilon) break;
+    }
+
+    return done.checked();
   }
+}
 
-  let distribution = DiscreteDistribution.fromDice(dice.count, dice.sides);
+// The number of multisets of count dice with the given number of faces
+function multisets(count: number, faces: number): number {
+  return binomial(count + faces - 1, count);
+}
+
+function calculateDiscreteDiceDistribution<P>(dice: ASTDice, options: DistributionOptions, probabilities: Probabilities<P>): Map<number, P> {
+  let distribution = DiscreteDistribution.fromDice(dice, options, probabilities);
   for (const operation of dice.operations) {
     distribution = distribution.applyOperation(operation);
   }
 
   return distribution.distribution();
 }
+
+// ===================================
+// Distributions of expressions
+// ===================================
+
+// The binary operators applied to a single pair of outcomes, shared by float and exact distributions
+const BinaryOperators: Record<string, (a: number, b: number) => number> = {
+  '+': (a, b) => a + b,
+  '-': (a, b) => a - b,
+  '*': (a, b) => a * b,
+  '/': (a, b) => a / b,
+  '//': (a, b) => Math.floor(a / b),
+  '%': (a, b) => a % b,
+  '<': (a, b) => Number(a < b),
+  '>': (a, b) => Number(a > b),
+  '<=': (a, b) => Number(a <= b),
+  '>=': (a, b) => Number(a >= b),
+  '==': (a, b) => Number(a === b),
+  '!=': (a, b) => Number(a !== b),
+};
+
+function checkDivisor(keys: number[]): void {
+  if (keys.includes(0)) {
+    throw new DistributionError('Distribution contains potential divide by zero!');
+  }
+}
+
+// The operations that differ between distributions with float and with exact probabilities, so that both can share a single walk over the AST
+interface DistributionKind<P, D> {
+  readonly probabilities: Probabilities<P>;
+  create(values: Map<number, P>): D;
+  entries(dist: D): [number, P][];
+  dice(dice: ASTDice, options: DistributionOptions): D;
+  add(a: D, b: D): D;
+  combine(a: D, b: D, func: (a: number, b: number) => number): D;
+  transformKeys(dist: D, func: (key: number) => number): D;
+  best(dist: D, count: number): D;
+  worst(dist: D, count: number): D;
+}
+
+const FloatKind: DistributionKind<number, Distribution> = {
+  probabilities: FloatProbabilities,
+  create: (values) => new Distribution(values),
+  entries: (dist) => dist.entries(),
+  dice: calculateDiceDistribution,
+  add: Distribution.add,
+  combine: Distribution.combine,
+  transformKeys: (dist, func) => dist.transformKeys(func),
+  best: Distribution.best,
+  worst: Distribution.worst,
+};
+
+const ExactKind: DistributionKind<Rational, ExactDistribution> = {
+  probabilities: ExactProbabilities,
+  create: (values) => new ExactDistribution(values),
+  entries: (dist) => dist.entries(),
+  dice: calculateExactDiceDistribution,
+  add: (a, b) => ExactDistribution.combine(a, b, BinaryOperators['+']),
+  combine: ExactDistribution.combine,
+  transformKeys: (dist, func) => dist.transformKeys(func),
+  best: ExactDistribution.best,
+  worst: ExactDistribution.worst,
+};
+
+function calculateDistribution<P, D>(node: ASTNode, options: DistributionOptions, kind: DistributionKind<P, D>): D {
+  if (options.advantage !== undefined) {
+    return calculateDistribution(withAdvantage(node, options.advantage), { ...options, advantage: undefined }, kind);
+  }
+
+  if (node instanceof ASTLiteral) {
+    return kind.create(new Map([[node.value, kind.probabilities.one]]));
+  }
+
+  if (node instanceof ASTVariable) {
+    return kind.create(new Map([[resolveVariable(options.variables, node.name), kind.probabilities.one]]));
+  }
+
+  if (node instanceof ASTDice) {
+    return kind.dice(node, options);
+  }
+
+  if (node instanceof ASTSet) {
+    return calculateSetDistribution(node, options, kind);
+  }
+
+  if (node instanceof ASTFunction) {
+    const args = node.args.map((arg) => calculateDistribution(arg, options, kind));
+    if (args.length === 1) {
+      return kind.transformKeys(args[0], (key) => callFunction(node.name, [key]));
+    }
+    // Functions with more arguments, i.e. min and max, can be applied to two arguments at a time
+    return args.reduce((a, b) => kind.combine(a, b, (x, y) => callFunction(node.name, [x, y])));
+  }
+
+  if (node instanceof ASTAdvantage) {
+    const value = calculateDistribution(node.value, options, kind);
+    return node.mode === 'advantage' ? kind.best(value, node.count) : kind.worst(value, node.count);
+  }
+
+  if (node instanceof ASTParenthetical) {
+    return calculateDistribution(node.value, options, kind);
+  }
+
+  if (node instanceof ASTUnOp) {
+    if (node.op === '+') return calculateDistribution(node.value, options, kind);
+    if (node.op === '-') return kind.transformKeys(calculateDistribution(node.value, options, kind), (key) => -key);
+    throw new DistributionError(`Distribution: unsupported UnOp operator '${node.op}'`);
+  }
+
+  if (node instanceof ASTBinOp) {
+    const operator = BinaryOperators[node.op];
+    if (operator === undefined) {
+      throw new DistributionError(`Distribution: unsupported BinOp operator '${node.op}'`);
+    }
+
+    const left = calculateDistribution(node.left, options, kind);
+    const right = calculateDistribution(node.right, options, kind);
+    if (node.op === '+') return kind.add(left, right);
+    if (node.op === '/' || node.op === '//') checkDivisor(kind.entries(right).map(([key]) => key));
+    return kind.combine(left, right, operator);
+  }
+
+  throw new DistributionError(`Distribution: unsupported node type '${node.constructor.name}'`);
+}
+
+// ===================================
+// Set distributions
+// ===================================
+
+/**
+ * Calculates the distribution of a set by enumerating the sorted totals of the kept elements. Elements that are dropped
+ * can never be kept again by later operations, so they are left out of the states altogether.
+ */
+function calculateSetDistribution<P, D>(set: ASTSet, options: DistributionOptions, kind: DistributionKind<P, D>): D {
+  const { zero, one, add: plus, mul } = kind.probabilities;
+  const elements = set.elements.map((element) => calculateDistribution(element, options, kind));
+  if (set.operations.length === 0) {
+    return elements.reduce((a, b) => kind.add(a, b), kind.create(new Map([[0, one]])));
+  }
+
+  // Keeping the highest or lowest of identical elements, e.g. the stat array `(4d6kh3, 4d6kh3, ...)pl1`, is an order statistic
+  const [first] = set.operations;
+  const identical = elements.length > 0 && set.elements.every((element) => element.toString() === set.elements[0].toString());
+  if (identical && set.operations.length === 1 && (first.op === 'k' || first.op === 'p') && (first.selector.type === 'h' || first.selector.type === 'l')) {
+    const count = elements.length;
+    const kept = first.op === 'k' ? Math.min(first.selector.value, count) : Math.max(count - first.selector.value, 0);
+    const highest = (first.op === 'k') === (first.selector.type === 'h');
+    return kind.create(keepExtremes(kind.entries(elements[0]), count, kept, highest, kind.probabilities, set, options));
+  }
+
+  let states = new Map<string, [number[], P]>([['', [[], one]]]);
+  const add = (next: Map<string, [number[], P]>, totals: number[], probability: P) => {
+    totals.sort((a, b) => a - b);
+    const key = totals.join(',');
+    next.set(key, [totals, plus(next.get(key)?.[1] ?? zero, probability)]);
+  };
+  const { maxStates } = resolveLimits(options.limits);
+  const check = (size: number) => {
+    if (size > maxStates) {
+      throw new TooManyStatesError(`Set expression '${set.toString()}' is too large to calculate!`, set);
+    }
+  };
+  const checked = (next: Map<string, [number[], P]>) => {
+    check(next.size);
+    return next;
+  };
+
+  for (const element of elements) {
+    // Every state is combined with every total of the element, which is counted before combining them
+    const entries = kind.entries(element);
+    check(states.size * entries.length);
+
+    const next = new Map<string, [number[], P]>();
+    for (const [totals, probability] of states.values()) {
+      for (const [total, p] of entries) {
+        add(next, [...totals, total], mul(probability, p));
+      }
+    }
+    states = checked(next);
+  }
+
+  for (const operation of set.operations) {
+    const { op, selector } = operation;
+    if (op !== 'k' && op !== 'p') {
+      throw new UnsupportedDistributionError(`Unsupported set operation for distribution '${op}'`);
+    }
+
+    const next = new Map<string, [number[], P]>();
+    for (const [totals, probability] of states.values()) {
+      const matched = new Set(selectSetElements(totals, selector));
+      add(next, totals.filter((_, index) => matched.has(index) === (op === 'k')), probability);
+    }
+    states = checked(next);
+  }
+
+  const map = new Map<number, P>();
+  for (const [totals, probability] of states.values()) {
+    const total = sum(totals);
+    map.set(total, plus(map.get(total) ?? zero, probability));
+  }
+  return kind.create(map);
+}
+
+// Returns the indices of the sorted kept totals matched by the selector, consistent with how RolledSet selects its elements
+function selectSetElements(totals: number[], selector: Selector): number[] {
+  const indices = range(0, totals.length - 1);
+  if (selector.type === 'h') return indices.slice(Math.max(0, totals.length - selector.value));
+  if (selector.type === 'l') return indices.slice(0, selector.value);
+  return indices.filter((index) => selectorMatches(selector, totals[index]));
+}
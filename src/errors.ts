@@ -1,7 +1,51 @@
+import type { ASTNode } from './parser';
+
+export interface ParserErrorLocation {
+  // Offset in the expression (0-based)
+  readonly offset: number;
+  // Line in the expression (1-based)
+  readonly line: number;
+  // Column in the expression (1-based)
+  readonly column: number;
+}
+
+export interface ParserErrorDetails {
+  // The expression that could not be parsed
+  expression?: string;
+  location?: ParserErrorLocation;
+  // The text found at the location, null at the end of the expression
+  found?: string | null;
+  // Descriptions of the tokens that were expected at the location
+  expected?: string[];
+}
+
 export class ParserError extends Error {
-  constructor(message: string) {
+  public readonly expression: string | null;
+  public readonly location: ParserErrorLocation | null;
+  public readonly found: string | null;
+  public readonly expected: string[];
+
+  constructor(message: string, details: ParserErrorDetails = {}) {
     super(message);
     this.name = 'ParserError';
+    this.expression = details.expression ?? null;
+    this.location = details.location ?? null;
+    this.found = details.found ?? null;
+    this.expected = details.expected ?? [];
+  }
+
+  /**
+   * Renders the line of the expression containing the error, with a caret underneath the offending character, e.g.
+   *   1d20 ++ kh3
+   *          ^
+   */
+  public snippet(): string {
+    if (this.expression === null || this.location === null) {
+      return '';
+    }
+
+    const line = this.expression.split('\n')[this.location.line - 1] ?? '';
+    return `${line}\n${' '.repeat(this.location.column - 1)}^`;
   }
 }
 
@@ -13,9 +57,13 @@ export class ModifierError extends Error {
 }
 
 export class TooManyRollsError extends Error {
-  constructor(message: string) {
+  // The dice that were being rolled when the limit was exceeded
+  public readonly node: ASTNode | null;
+
+  constructor(message: string, node: ASTNode | null = null) {
     super(message);
     this.name = 'TooManyRollsError';
+    this.node = node;
   }
 }
 
@@ -24,4 +72,103 @@ export class DistributionError extends Error {
     super(message);
     this.name = 'DistributionError';
   }
-}
\ No newline at end of file
+}
+
+// The expression is valid, but its distribution cannot be calculated, only estimated by sampling
+export class UnsupportedDistributionError extends DistributionError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedDistributionError';
+  }
+}
+
+export class UndefinedVariableError extends Error {
+  // The name of the variable that is not defined
+  public readonly variable: string;
+
+  constructor(variable: string) {
+    super(`The variable '${variable}' is not defined.`);
+    this.name = 'UndefinedVariableError';
+    this.variable = variable;
+  }
+}
+
+// ===================================
+// Limits
+// ===================================
+
+export class ExplodeDepthError extends TooManyRollsError {
+  constructor(message: string, node: ASTNode | null = null) {
+    super(message, node);
+    this.name = 'ExplodeDepthError';
+  }
+}
+
+export class TooManyDiceError extends Error {
+  public readonly node: ASTNode;
+
+  constructor(message: string, node: ASTNode) {
+    super(message);
+    this.name = 'TooManyDiceError';
+    this.node = node;
+  }
+}
+
+export class TooManySidesError extends Error {
+  public readonly node: ASTNode;
+
+  constructor(message: string, node: ASTNode) {
+    super(message);
+    this.name = 'TooManySidesError';
+    this.node = node;
+  }
+}
+
+export class ExpressionTooLongError extends ParserError {
+  constructor(message: string, expression: string) {
+    super(message, { expression });
+    this.name = 'ExpressionTooLongError';
+  }
+}
+
+export class ExpressionTooDeepError extends ParserError {
+  // The first node that is nested too deeply
+  public readonly node: ASTNode;
+
+  constructor(message: string, expression: string, node: ASTNode) {
+    super(message, { expression });
+    this.name = 'ExpressionTooDeepError';
+    this.node = node;
+  }
+}
+
+export class TooManyRepeatsError extends ParserError {
+  // The adv or dis function that repeats its expression too many times
+  public readonly node: ASTNode;
+
+  constructor(message: string, expression: string, node: ASTNode) {
+    super(message, { expression });
+    this.name = 'TooManyRepeatsError';
+    this.node = node;
+  }
+}
+
+export class TooManyStatesError extends DistributionError {
+  public readonly node: ASTNode;
+
+  constructor(message: string, node: ASTNode) {
+    super(message);
+    this.name = 'TooManyStatesError';
+    this.node = node;
+  }
+}
+
+export class TooManyOutcomesError extends DistributionError {
+  public readonly node: ASTNode;
+
+  constructor(message: string, node: ASTNode) {
+    super(message);
+    this.name = 'TooManyOutcomesError';
+    this.node = node;
+  }
+}
@@ -164,8 +164,8 @@ function peg$parse(input, options) {
   };
   let peg$startRuleFunction = peg$parseExpression;
 
-  const peg$c0 = "//";
-  const peg$c1 = "%";
+  const peg$c0 = "*";
+  const peg$c1 = "//";
   const peg$c2 = ">=";
   const peg$c3 = "<=";
   const peg$c4 = "==";
@@ -176,66 +176,126 @@ function peg$parse(input, options) {
   const peg$c9 = "e";
   const peg$c10 = "mi";
   const peg$c11 = "ma";
-  const peg$c12 = ".";
-  const peg$c13 = "d";
-  const peg$c14 = "(";
-  const peg$c15 = ")";
+  const peg$c12 = "cs";
+  const peg$c13 = "cf";
+  const peg$c14 = ".";
+  const peg$c15 = "-";
+  const peg$c16 = "{";
+  const peg$c17 = ",";
+  const peg$c18 = "}";
+  const peg$c19 = "d";
+  const peg$c20 = "(";
+  const peg$c21 = ")";
+  const peg$c22 = "[";
+  const peg$c23 = "]";
+  const peg$c24 = "#";
 
   const peg$r0 = /^[ \t\f\r\n]/;
   const peg$r1 = /^[+\-]/;
-  const peg$r2 = /^[*\/]/;
+  const peg$r2 = /^[%\/]/;
   const peg$r3 = /^[<>]/;
   const peg$r4 = /^[kp]/;
   const peg$r5 = /^[<>hl]/;
   const peg$r6 = /^[0-9]/;
+  const peg$r7 = /^[a-zA-Z_]/;
+  const peg$r8 = /^[a-zA-Z0-9_]/;
+  const peg$r9 = /^[%F]/;
+  const peg$r10 = /^[^\]]/;
 
   const peg$e0 = peg$classExpectation([" ", "\t", "\f", "\r", "\n"], false, false, false);
-  const peg$e1 = peg$classExpectation(["+", "-"], false, false, false);
-  const peg$e2 = peg$classExpectation(["*", "/"], false, false, false);
-  const peg$e3 = peg$literalExpectation("//", false);
-  const peg$e4 = peg$literalExpectation("%", false);
-  const peg$e5 = peg$classExpectation(["<", ">"], false, false, false);
+  const peg$e1 = peg$otherExpectation("operator");
+  const peg$e2 = peg$classExpectation(["+", "-"], false, false, false);
+  const peg$e3 = peg$literalExpectation("*", false);
+  const peg$e4 = peg$literalExpectation("//", false);
+  const peg$e5 = peg$classExpectation(["%", "/"], false, false, false);
   const peg$e6 = peg$literalExpectation(">=", false);
   const peg$e7 = peg$literalExpectation("<=", false);
   const peg$e8 = peg$literalExpectation("==", false);
   const peg$e9 = peg$literalExpectation("!=", false);
-  const peg$e10 = peg$classExpectation(["k", "p"], false, false, false);
-  const peg$e11 = peg$literalExpectation("rr", false);
-  const peg$e12 = peg$literalExpectation("ro", false);
-  const peg$e13 = peg$literalExpectation("ra", false);
-  const peg$e14 = peg$literalExpectation("e", false);
-  const peg$e15 = peg$literalExpectation("mi", false);
-  const peg$e16 = peg$literalExpectation("ma", false);
-  const peg$e17 = peg$classExpectation(["<", ">", "h", "l"], false, false, false);
-  const peg$e18 = peg$classExpectation([["0", "9"]], false, false, false);
-  const peg$e19 = peg$literalExpectation(".", false);
-  const peg$e20 = peg$literalExpectation("d", false);
-  const peg$e21 = peg$literalExpectation("(", false);
-  const peg$e22 = peg$literalExpectation(")", false);
-
-  function peg$f0(type, value) {    return { type: type, value: value };  }
-  function peg$f1(digits, decimals) {
+  const peg$e10 = peg$classExpectation(["<", ">"], false, false, false);
+  const peg$e11 = peg$otherExpectation("dice operator");
+  const peg$e12 = peg$classExpectation(["k", "p"], false, false, false);
+  const peg$e13 = peg$literalExpectation("rr", false);
+  const peg$e14 = peg$literalExpectation("ro", false);
+  const peg$e15 = peg$literalExpectation("ra", false);
+  const peg$e16 = peg$literalExpectation("e", false);
+  const peg$e17 = peg$literalExpectation("mi", false);
+  const peg$e18 = peg$literalExpectation("ma", false);
+  const peg$e19 = peg$literalExpectation("cs", false);
+  const peg$e20 = peg$literalExpectation("cf", false);
+  const peg$e21 = peg$otherExpectation("selector");
+  const peg$e22 = peg$classExpectation(["<", ">", "h", "l"], false, false, false);
+  const peg$e23 = peg$classExpectation([["0", "9"]], false, false, false);
+  const peg$e24 = peg$literalExpectation(".", false);
+  const peg$e25 = peg$otherExpectation("integer");
+  const peg$e26 = peg$literalExpectation("-", false);
+  const peg$e27 = peg$literalExpectation("{", false);
+  const peg$e28 = peg$literalExpectation(",", false);
+  const peg$e29 = peg$literalExpectation("}", false);
+  const peg$e30 = peg$classExpectation([["a", "z"], ["A", "Z"], "_"], false, false, false);
+  const peg$e31 = peg$classExpectation([["a", "z"], ["A", "Z"], ["0", "9"], "_"], false, false, false);
+  const peg$e32 = peg$classExpectation(["%", "F"], false, false, false);
+  const peg$e33 = peg$otherExpectation("dice");
+  const peg$e34 = peg$literalExpectation("d", false);
+  const peg$e35 = peg$otherExpectation("number");
+  const peg$e36 = peg$otherExpectation("variable");
+  const peg$e37 = peg$literalExpectation("(", false);
+  const peg$e38 = peg$literalExpectation(")", false);
+  const peg$e39 = peg$otherExpectation("annotation");
+  const peg$e40 = peg$literalExpectation("[", false);
+  const peg$e41 = peg$classExpectation(["]"], true, false, false);
+  const peg$e42 = peg$literalExpectation("]", false);
+  const peg$e43 = peg$otherExpectation("comment");
+  const peg$e44 = peg$literalExpectation("#", false);
+  const peg$e45 = peg$anyExpectation();
+
+  function peg$f0(expression, comment) {
+    if (comment !== null) { expression.comment = comment }
+    return expression
+  }
+  function peg$f1(type, value) {    return { type: type, value: value };  }
+  function peg$f2(digits, decimals) {
     const sdigits = digits.join("")
     const sdecimals = decimals.join("")
     return parseFloat(sdigits + "." + sdecimals); 
   }
-  function peg$f2(digits) {    return parseInt(digits.join(""), 10);  }
-  function peg$f3(op, selector) {    return { op: op, selector: selector };  }
-  function peg$f4(count, sides) {    
+  function peg$f3(digits) {    return parseInt(digits.join(""), 10);  }
+  function peg$f4(op, selector) {    return { op: op, selector: selector };  }
+  function peg$f5(op, selector) {    return { op: op, selector: selector };  }
+  function peg$f6(sign, value) {    return sign === null ? value : -value;  }
+  function peg$f7(first, value) {    return value;  }
+  function peg$f8(first, rest) {    return [first, ...rest];  }
+  function peg$f9(name) {    return name;  }
+  function peg$f10(faces) {    return { faces: faces };  }
+  function peg$f11(name) {    return { name: name };  }
+  function peg$f12(count, sides) {    
        // e.g. d100, missing count means one
        if (count == null) { count = 1 }
        return { count: count, sides: sides }
   }
-  function peg$f5(value) {    return { type: "Literal", value: value };  }
-  function peg$f6(value) {    return { type: "Literal", value: value };  }
-  function peg$f7(expression, op) {    return { type: "Dice", expression: expression, op: op}  }
-  function peg$f8(left, op, right) {    return { type: "BinOp", op: op, left: left, right: right};  }
-  function peg$f9(left, op, right) {    return { type: "BinOp", op: op, left: left, right: right };  }
-  function peg$f10(op, expression) {    return { type: "UnOp", op: op, expression: expression };  }
-  function peg$f11(left, op, right) {    return { type: "BinOp", op: op, left: left, right: right };  }
-  function peg$f12(expression) {    return { type: "Parenthetical", expression: expression };  }
-  function peg$f13(dice) {    return dice;  }
-  function peg$f14(literal) {    return literal;  }
+  function peg$f13(value) {    return { type: "Literal", value: value };  }
+  function peg$f14(value) {    return { type: "Literal", value: value };  }
+  function peg$f15(expression, op) {    return { type: "Dice", expression: expression, op: op}  }
+  function peg$f16(name) {    return name;  }
+  function peg$f17(name) {    return { type: "Variable", name: name };  }
+  function peg$f18(name, first, arg) {    return arg;  }
+  function peg$f19(name, first, rest) {    return { type: "Function", name: name, args: [first, ...rest] };  }
+  function peg$f20(op) {    return { type: "Set", elements: [], op: op };  }
+  function peg$f21(first, element) {    return element;  }
+  function peg$f22(first, rest, trailing, op) {    return rest.length > 0 || trailing !== null || op.length > 0;  }
+  function peg$f23(first, rest, trailing, op) {    return { type: "Set", elements: [first, ...rest], op: op };  }
+  function peg$f24(text) {    return text.trim();  }
+  function peg$f25(text) {    return text.trim();  }
+  function peg$f26(left, op, right) {    return { type: "BinOp", op: op, left: left, right: right};  }
+  function peg$f27(left, op, right) {    return { type: "BinOp", op: op, left: left, right: right };  }
+  function peg$f28(op, expression) {    return { type: "UnOp", op: op, expression: expression };  }
+  function peg$f29(left, op, right) {    return { type: "BinOp", op: op, left: left, right: right };  }
+  function peg$f30(set, annotations) {    return { ...set, annotations: annotations };  }
+  function peg$f31(expression, annotations) {    return { type: "Parenthetical", expression: expression, annotations: annotations };  }
+  function peg$f32(dice, annotations) {    return { ...dice, annotations: annotations };  }
+  function peg$f33(literal, annotations) {    return { ...literal, annotations: annotations };  }
+  function peg$f34(call, annotations) {    return { ...call, annotations: annotations };  }
+  function peg$f35(variable, annotations) {    return { ...variable, annotations: annotations };  }
   let peg$currPos = options.peg$currPos | 0;
   let peg$savedPos = peg$currPos;
   const peg$posDetailsCache = [{ line: 1, column: 1 }];
@@ -243,6 +303,8 @@ function peg$parse(input, options) {
   let peg$maxFailExpected = options.peg$maxFailExpected || [];
   let peg$silentFails = options.peg$silentFails | 0;
 
+  let peg$resultsCache = {};
+
   let peg$result;
 
   if (options.startRule) {
@@ -407,9 +469,32 @@ function peg$parse(input, options) {
   }
 
   function peg$parseExpression() {
-    let s0;
+    let s0, s1, s2;
+
+    const key = peg$currPos * 34 + 0;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = peg$currPos;
+    s1 = peg$parseComparison();
+    if (s1 !== peg$FAILED) {
+      s2 = peg$parseComment();
+      if (s2 === peg$FAILED) {
+        s2 = null;
+      }
+      peg$savedPos = s0;
+      s0 = peg$f0(s1, s2);
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
 
-    s0 = peg$parseComparison();
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
 
     return s0;
   }
@@ -417,6 +502,16 @@ function peg$parse(input, options) {
   function peg$parsews() {
     let s0, s1;
 
+    const key = peg$currPos * 34 + 1;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    peg$silentFails++;
     s0 = [];
     s1 = input.charAt(peg$currPos);
     if (peg$r0.test(s1)) {
@@ -435,143 +530,241 @@ function peg$parse(input, options) {
         if (peg$silentFails === 0) { peg$fail(peg$e0); }
       }
     }
+    peg$silentFails--;
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
 
     return s0;
   }
 
   function peg$parseAddOperator() {
-    let s0;
+    let s0, s1;
+
+    const key = peg$currPos * 34 + 2;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
 
+    peg$silentFails++;
     s0 = input.charAt(peg$currPos);
     if (peg$r1.test(s0)) {
       peg$currPos++;
     } else {
       s0 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e2); }
+    }
+    peg$silentFails--;
+    if (s0 === peg$FAILED) {
+      s1 = peg$FAILED;
       if (peg$silentFails === 0) { peg$fail(peg$e1); }
     }
 
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
     return s0;
   }
 
   function peg$parseUnaryOperator() {
-    let s0;
+    let s0, s1;
+
+    const key = peg$currPos * 34 + 3;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
 
+    peg$silentFails++;
     s0 = input.charAt(peg$currPos);
     if (peg$r1.test(s0)) {
       peg$currPos++;
     } else {
       s0 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e2); }
+    }
+    peg$silentFails--;
+    if (s0 === peg$FAILED) {
+      s1 = peg$FAILED;
       if (peg$silentFails === 0) { peg$fail(peg$e1); }
     }
 
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
     return s0;
   }
 
   function peg$parseMultOperator() {
-    let s0;
+    let s0, s1;
 
-    s0 = input.charAt(peg$currPos);
-    if (peg$r2.test(s0)) {
+    const key = peg$currPos * 34 + 4;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    peg$silentFails++;
+    if (input.charCodeAt(peg$currPos) === 42) {
+      s0 = peg$c0;
       peg$currPos++;
     } else {
       s0 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$e2); }
+      if (peg$silentFails === 0) { peg$fail(peg$e3); }
     }
     if (s0 === peg$FAILED) {
-      if (input.substr(peg$currPos, 2) === peg$c0) {
-        s0 = peg$c0;
+      if (input.substr(peg$currPos, 2) === peg$c1) {
+        s0 = peg$c1;
         peg$currPos += 2;
       } else {
         s0 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$e3); }
+        if (peg$silentFails === 0) { peg$fail(peg$e4); }
       }
       if (s0 === peg$FAILED) {
-        if (input.charCodeAt(peg$currPos) === 37) {
-          s0 = peg$c1;
+        s0 = input.charAt(peg$currPos);
+        if (peg$r2.test(s0)) {
           peg$currPos++;
         } else {
           s0 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$e4); }
+          if (peg$silentFails === 0) { peg$fail(peg$e5); }
         }
       }
     }
+    peg$silentFails--;
+    if (s0 === peg$FAILED) {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e1); }
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
 
     return s0;
   }
 
   function peg$parseCompOperator() {
-    let s0;
+    let s0, s1;
 
-    s0 = input.charAt(peg$currPos);
-    if (peg$r3.test(s0)) {
-      peg$currPos++;
+    const key = peg$currPos * 34 + 5;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    peg$silentFails++;
+    if (input.substr(peg$currPos, 2) === peg$c2) {
+      s0 = peg$c2;
+      peg$currPos += 2;
     } else {
       s0 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$e5); }
+      if (peg$silentFails === 0) { peg$fail(peg$e6); }
     }
     if (s0 === peg$FAILED) {
-      if (input.substr(peg$currPos, 2) === peg$c2) {
-        s0 = peg$c2;
+      if (input.substr(peg$currPos, 2) === peg$c3) {
+        s0 = peg$c3;
         peg$currPos += 2;
       } else {
         s0 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$e6); }
+        if (peg$silentFails === 0) { peg$fail(peg$e7); }
       }
       if (s0 === peg$FAILED) {
-        if (input.substr(peg$currPos, 2) === peg$c3) {
-          s0 = peg$c3;
+        if (input.substr(peg$currPos, 2) === peg$c4) {
+          s0 = peg$c4;
           peg$currPos += 2;
         } else {
           s0 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$e7); }
+          if (peg$silentFails === 0) { peg$fail(peg$e8); }
         }
         if (s0 === peg$FAILED) {
-          if (input.substr(peg$currPos, 2) === peg$c4) {
-            s0 = peg$c4;
+          if (input.substr(peg$currPos, 2) === peg$c5) {
+            s0 = peg$c5;
             peg$currPos += 2;
           } else {
             s0 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$e8); }
+            if (peg$silentFails === 0) { peg$fail(peg$e9); }
           }
           if (s0 === peg$FAILED) {
-            if (input.substr(peg$currPos, 2) === peg$c5) {
-              s0 = peg$c5;
-              peg$currPos += 2;
+            s0 = input.charAt(peg$currPos);
+            if (peg$r3.test(s0)) {
+              peg$currPos++;
             } else {
               s0 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$e9); }
+              if (peg$silentFails === 0) { peg$fail(peg$e10); }
             }
           }
         }
       }
     }
+    peg$silentFails--;
+    if (s0 === peg$FAILED) {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e1); }
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
 
     return s0;
   }
 
   function peg$parseSetOperator() {
-    let s0;
+    let s0, s1;
+
+    const key = peg$currPos * 34 + 6;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
 
+    peg$silentFails++;
     s0 = input.charAt(peg$currPos);
     if (peg$r4.test(s0)) {
       peg$currPos++;
     } else {
       s0 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$e10); }
+      if (peg$silentFails === 0) { peg$fail(peg$e12); }
+    }
+    peg$silentFails--;
+    if (s0 === peg$FAILED) {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e11); }
     }
 
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
     return s0;
   }
 
   function peg$parseDiceOperator() {
-    let s0;
+    let s0, s1;
+
+    const key = peg$currPos * 34 + 7;
+    const cached = peg$resultsCache[key];
 
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    peg$silentFails++;
     if (input.substr(peg$currPos, 2) === peg$c6) {
       s0 = peg$c6;
       peg$currPos += 2;
     } else {
       s0 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$e11); }
+      if (peg$silentFails === 0) { peg$fail(peg$e13); }
     }
     if (s0 === peg$FAILED) {
       if (input.substr(peg$currPos, 2) === peg$c7) {
@@ -579,7 +772,7 @@ function peg$parse(input, options) {
         peg$currPos += 2;
       } else {
         s0 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$e12); }
+        if (peg$silentFails === 0) { peg$fail(peg$e14); }
       }
       if (s0 === peg$FAILED) {
         if (input.substr(peg$currPos, 2) === peg$c8) {
@@ -587,7 +780,7 @@ function peg$parse(input, options) {
           peg$currPos += 2;
         } else {
           s0 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$e13); }
+          if (peg$silentFails === 0) { peg$fail(peg$e15); }
         }
         if (s0 === peg$FAILED) {
           if (input.charCodeAt(peg$currPos) === 101) {
@@ -595,7 +788,7 @@ function peg$parse(input, options) {
             peg$currPos++;
           } else {
             s0 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$e14); }
+            if (peg$silentFails === 0) { peg$fail(peg$e16); }
           }
           if (s0 === peg$FAILED) {
             if (input.substr(peg$currPos, 2) === peg$c10) {
@@ -603,7 +796,7 @@ function peg$parse(input, options) {
               peg$currPos += 2;
             } else {
               s0 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$e15); }
+              if (peg$silentFails === 0) { peg$fail(peg$e17); }
             }
             if (s0 === peg$FAILED) {
               if (input.substr(peg$currPos, 2) === peg$c11) {
@@ -611,34 +804,85 @@ function peg$parse(input, options) {
                 peg$currPos += 2;
               } else {
                 s0 = peg$FAILED;
-                if (peg$silentFails === 0) { peg$fail(peg$e16); }
+                if (peg$silentFails === 0) { peg$fail(peg$e18); }
+              }
+              if (s0 === peg$FAILED) {
+                if (input.substr(peg$currPos, 2) === peg$c12) {
+                  s0 = peg$c12;
+                  peg$currPos += 2;
+                } else {
+                  s0 = peg$FAILED;
+                  if (peg$silentFails === 0) { peg$fail(peg$e19); }
+                }
+                if (s0 === peg$FAILED) {
+                  if (input.substr(peg$currPos, 2) === peg$c13) {
+                    s0 = peg$c13;
+                    peg$currPos += 2;
+                  } else {
+                    s0 = peg$FAILED;
+                    if (peg$silentFails === 0) { peg$fail(peg$e20); }
+                  }
+                }
               }
             }
           }
         }
       }
     }
+    peg$silentFails--;
+    if (s0 === peg$FAILED) {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e11); }
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
 
     return s0;
   }
 
   function peg$parseSelectorType() {
-    let s0;
+    let s0, s1;
+
+    const key = peg$currPos * 34 + 8;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
 
+    peg$silentFails++;
     s0 = input.charAt(peg$currPos);
     if (peg$r5.test(s0)) {
       peg$currPos++;
     } else {
       s0 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$e17); }
+      if (peg$silentFails === 0) { peg$fail(peg$e22); }
+    }
+    peg$silentFails--;
+    if (s0 === peg$FAILED) {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e21); }
     }
 
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
     return s0;
   }
 
   function peg$parseSelector() {
     let s0, s1, s2;
 
+    const key = peg$currPos * 34 + 9;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
     s0 = peg$currPos;
     s1 = peg$parseSelectorType();
     if (s1 === peg$FAILED) {
@@ -647,18 +891,29 @@ function peg$parse(input, options) {
     s2 = peg$parseInteger();
     if (s2 !== peg$FAILED) {
       peg$savedPos = s0;
-      s0 = peg$f0(s1, s2);
+      s0 = peg$f1(s1, s2);
     } else {
       peg$currPos = s0;
       s0 = peg$FAILED;
     }
 
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
     return s0;
   }
 
   function peg$parseDecimal() {
     let s0, s1, s2, s3, s4;
 
+    const key = peg$currPos * 34 + 10;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
     s0 = peg$currPos;
     s1 = [];
     s2 = input.charAt(peg$currPos);
@@ -666,7 +921,7 @@ function peg$parse(input, options) {
       peg$currPos++;
     } else {
       s2 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$e18); }
+      if (peg$silentFails === 0) { peg$fail(peg$e23); }
     }
     if (s2 !== peg$FAILED) {
       while (s2 !== peg$FAILED) {
@@ -676,7 +931,7 @@ function peg$parse(input, options) {
           peg$currPos++;
         } else {
           s2 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$e18); }
+          if (peg$silentFails === 0) { peg$fail(peg$e23); }
         }
       }
     } else {
@@ -684,11 +939,11 @@ function peg$parse(input, options) {
     }
     if (s1 !== peg$FAILED) {
       if (input.charCodeAt(peg$currPos) === 46) {
-        s2 = peg$c12;
+        s2 = peg$c14;
         peg$currPos++;
       } else {
         s2 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$e19); }
+        if (peg$silentFails === 0) { peg$fail(peg$e24); }
       }
       if (s2 !== peg$FAILED) {
         s3 = [];
@@ -697,7 +952,7 @@ function peg$parse(input, options) {
           peg$currPos++;
         } else {
           s4 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$e18); }
+          if (peg$silentFails === 0) { peg$fail(peg$e23); }
         }
         if (s4 !== peg$FAILED) {
           while (s4 !== peg$FAILED) {
@@ -707,7 +962,7 @@ function peg$parse(input, options) {
               peg$currPos++;
             } else {
               s4 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$e18); }
+              if (peg$silentFails === 0) { peg$fail(peg$e23); }
             }
           }
         } else {
@@ -715,7 +970,7 @@ function peg$parse(input, options) {
         }
         if (s3 !== peg$FAILED) {
           peg$savedPos = s0;
-          s0 = peg$f1(s1, s3);
+          s0 = peg$f2(s1, s3);
         } else {
           peg$currPos = s0;
           s0 = peg$FAILED;
@@ -729,12 +984,24 @@ function peg$parse(input, options) {
       s0 = peg$FAILED;
     }
 
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
     return s0;
   }
 
   function peg$parseInteger() {
     let s0, s1, s2;
 
+    const key = peg$currPos * 34 + 11;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    peg$silentFails++;
     s0 = peg$currPos;
     s1 = [];
     s2 = input.charAt(peg$currPos);
@@ -742,7 +1009,7 @@ function peg$parse(input, options) {
       peg$currPos++;
     } else {
       s2 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$e18); }
+      if (peg$silentFails === 0) { peg$fail(peg$e23); }
     }
     if (s2 !== peg$FAILED) {
       while (s2 !== peg$FAILED) {
@@ -752,7 +1019,7 @@ function peg$parse(input, options) {
           peg$currPos++;
         } else {
           s2 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$e18); }
+          if (peg$silentFails === 0) { peg$fail(peg$e23); }
         }
       }
     } else {
@@ -760,9 +1027,16 @@ function peg$parse(input, options) {
     }
     if (s1 !== peg$FAILED) {
       peg$savedPos = s0;
-      s1 = peg$f2(s1);
+      s1 = peg$f3(s1);
     }
     s0 = s1;
+    peg$silentFails--;
+    if (s0 === peg$FAILED) {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e25); }
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
 
     return s0;
   }
@@ -770,6 +1044,15 @@ function peg$parse(input, options) {
   function peg$parseDiceOperation() {
     let s0, s1, s2;
 
+    const key = peg$currPos * 34 + 12;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
     s0 = peg$currPos;
     s1 = peg$parseDiceOperator();
     if (s1 === peg$FAILED) {
@@ -779,7 +1062,7 @@ function peg$parse(input, options) {
       s2 = peg$parseSelector();
       if (s2 !== peg$FAILED) {
         peg$savedPos = s0;
-        s0 = peg$f3(s1, s2);
+        s0 = peg$f4(s1, s2);
       } else {
         peg$currPos = s0;
         s0 = peg$FAILED;
@@ -789,29 +1072,30 @@ function peg$parse(input, options) {
       s0 = peg$FAILED;
     }
 
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
     return s0;
   }
 
-  function peg$parseDiceExpression() {
-    let s0, s1, s2, s3;
+  function peg$parseSetOperation() {
+    let s0, s1, s2;
 
-    s0 = peg$currPos;
-    s1 = peg$parseInteger();
-    if (s1 === peg$FAILED) {
-      s1 = null;
-    }
-    if (input.charCodeAt(peg$currPos) === 100) {
-      s2 = peg$c13;
-      peg$currPos++;
-    } else {
-      s2 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$e20); }
+    const key = peg$currPos * 34 + 13;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
     }
-    if (s2 !== peg$FAILED) {
-      s3 = peg$parseInteger();
-      if (s3 !== peg$FAILED) {
+
+    s0 = peg$currPos;
+    s1 = peg$parseSetOperator();
+    if (s1 !== peg$FAILED) {
+      s2 = peg$parseSelector();
+      if (s2 !== peg$FAILED) {
         peg$savedPos = s0;
-        s0 = peg$f4(s1, s3);
+        s0 = peg$f5(s1, s2);
       } else {
         peg$currPos = s0;
         s0 = peg$FAILED;
@@ -821,66 +1105,133 @@ function peg$parse(input, options) {
       s0 = peg$FAILED;
     }
 
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
     return s0;
   }
 
-  function peg$parseLiteral() {
-    let s0, s1;
+  function peg$parseSignedInteger() {
+    let s0, s1, s2;
 
-    s0 = peg$currPos;
-    s1 = peg$parseDecimal();
-    if (s1 !== peg$FAILED) {
-      peg$savedPos = s0;
-      s1 = peg$f5(s1);
-    }
-    s0 = s1;
-    if (s0 === peg$FAILED) {
-      s0 = peg$currPos;
-      s1 = peg$parseInteger();
-      if (s1 !== peg$FAILED) {
-        peg$savedPos = s0;
-        s1 = peg$f6(s1);
-      }
-      s0 = s1;
-    }
+    const key = peg$currPos * 34 + 14;
+    const cached = peg$resultsCache[key];
 
-    return s0;
-  }
+    if (cached) {
+      peg$currPos = cached.nextPos;
 
-  function peg$parseDice() {
-    let s0, s1, s2, s3;
+      return cached.result;
+    }
 
     s0 = peg$currPos;
-    s1 = peg$parseDiceExpression();
-    if (s1 !== peg$FAILED) {
-      s2 = [];
-      s3 = peg$parseDiceOperation();
-      while (s3 !== peg$FAILED) {
-        s2.push(s3);
-        s3 = peg$parseDiceOperation();
-      }
+    if (input.charCodeAt(peg$currPos) === 45) {
+      s1 = peg$c15;
+      peg$currPos++;
+    } else {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e26); }
+    }
+    if (s1 === peg$FAILED) {
+      s1 = null;
+    }
+    s2 = peg$parseInteger();
+    if (s2 !== peg$FAILED) {
       peg$savedPos = s0;
-      s0 = peg$f7(s1, s2);
+      s0 = peg$f6(s1, s2);
     } else {
       peg$currPos = s0;
       s0 = peg$FAILED;
     }
 
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
     return s0;
   }
 
-  function peg$parseComparison() {
-    let s0, s1, s2, s3;
+  function peg$parseFaces() {
+    let s0, s1, s2, s3, s4, s5, s6, s7, s8, s9;
+
+    const key = peg$currPos * 34 + 15;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
 
     s0 = peg$currPos;
-    s1 = peg$parseSum();
+    if (input.charCodeAt(peg$currPos) === 123) {
+      s1 = peg$c16;
+      peg$currPos++;
+    } else {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e27); }
+    }
     if (s1 !== peg$FAILED) {
-      s2 = peg$parseCompOperator();
-      if (s2 !== peg$FAILED) {
-        s3 = peg$parseComparison();
-        if (s3 !== peg$FAILED) {
+      s2 = peg$parsews();
+      s3 = peg$parseSignedInteger();
+      if (s3 !== peg$FAILED) {
+        s4 = [];
+        s5 = peg$currPos;
+        s6 = peg$parsews();
+        if (input.charCodeAt(peg$currPos) === 44) {
+          s7 = peg$c17;
+          peg$currPos++;
+        } else {
+          s7 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e28); }
+        }
+        if (s7 !== peg$FAILED) {
+          s8 = peg$parsews();
+          s9 = peg$parseSignedInteger();
+          if (s9 !== peg$FAILED) {
+            peg$savedPos = s5;
+            s5 = peg$f7(s3, s9);
+          } else {
+            peg$currPos = s5;
+            s5 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s5;
+          s5 = peg$FAILED;
+        }
+        while (s5 !== peg$FAILED) {
+          s4.push(s5);
+          s5 = peg$currPos;
+          s6 = peg$parsews();
+          if (input.charCodeAt(peg$currPos) === 44) {
+            s7 = peg$c17;
+            peg$currPos++;
+          } else {
+            s7 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$e28); }
+          }
+          if (s7 !== peg$FAILED) {
+            s8 = peg$parsews();
+            s9 = peg$parseSignedInteger();
+            if (s9 !== peg$FAILED) {
+              peg$savedPos = s5;
+              s5 = peg$f7(s3, s9);
+            } else {
+              peg$currPos = s5;
+              s5 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s5;
+            s5 = peg$FAILED;
+          }
+        }
+        s5 = peg$parsews();
+        if (input.charCodeAt(peg$currPos) === 125) {
+          s6 = peg$c18;
+          peg$currPos++;
+        } else {
+          s6 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e29); }
+        }
+        if (s6 !== peg$FAILED) {
           peg$savedPos = s0;
-          s0 = peg$f8(s1, s2, s3);
+          s0 = peg$f8(s3, s4);
         } else {
           peg$currPos = s0;
           s0 = peg$FAILED;
@@ -893,32 +1244,925 @@ function peg$parse(input, options) {
       peg$currPos = s0;
       s0 = peg$FAILED;
     }
-    if (s0 === peg$FAILED) {
-      s0 = peg$parseSum();
-    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
 
     return s0;
   }
 
-  function peg$parseSum() {
-    let s0, s1, s2, s3;
+  function peg$parseDieName() {
+    let s0, s1, s2, s3, s4, s5, s6;
+
+    const key = peg$currPos * 34 + 16;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
 
     s0 = peg$currPos;
-    s1 = peg$parseUnary();
+    if (input.charCodeAt(peg$currPos) === 123) {
+      s1 = peg$c16;
+      peg$currPos++;
+    } else {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e27); }
+    }
     if (s1 !== peg$FAILED) {
-      s2 = peg$parseAddOperator();
-      if (s2 !== peg$FAILED) {
-        s3 = peg$parseSum();
-        if (s3 !== peg$FAILED) {
-          peg$savedPos = s0;
-          s0 = peg$f9(s1, s2, s3);
-        } else {
-          peg$currPos = s0;
-          s0 = peg$FAILED;
-        }
+      s2 = peg$currPos;
+      s3 = peg$currPos;
+      s4 = input.charAt(peg$currPos);
+      if (peg$r7.test(s4)) {
+        peg$currPos++;
       } else {
-        peg$currPos = s0;
-        s0 = peg$FAILED;
+        s4 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e30); }
+      }
+      if (s4 !== peg$FAILED) {
+        s5 = [];
+        s6 = input.charAt(peg$currPos);
+        if (peg$r8.test(s6)) {
+          peg$currPos++;
+        } else {
+          s6 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e31); }
+        }
+        while (s6 !== peg$FAILED) {
+          s5.push(s6);
+          s6 = input.charAt(peg$currPos);
+          if (peg$r8.test(s6)) {
+            peg$currPos++;
+          } else {
+            s6 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$e31); }
+          }
+        }
+        s4 = [s4, s5];
+        s3 = s4;
+      } else {
+        peg$currPos = s3;
+        s3 = peg$FAILED;
+      }
+      if (s3 !== peg$FAILED) {
+        s2 = input.substring(s2, peg$currPos);
+      } else {
+        s2 = s3;
+      }
+      if (s2 !== peg$FAILED) {
+        if (input.charCodeAt(peg$currPos) === 125) {
+          s3 = peg$c18;
+          peg$currPos++;
+        } else {
+          s3 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e29); }
+        }
+        if (s3 !== peg$FAILED) {
+          peg$savedPos = s0;
+          s0 = peg$f9(s2);
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseDiceSides() {
+    let s0, s1;
+
+    const key = peg$currPos * 34 + 17;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = input.charAt(peg$currPos);
+    if (peg$r9.test(s0)) {
+      peg$currPos++;
+    } else {
+      s0 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e32); }
+    }
+    if (s0 === peg$FAILED) {
+      s0 = peg$currPos;
+      s1 = peg$parseFaces();
+      if (s1 !== peg$FAILED) {
+        peg$savedPos = s0;
+        s1 = peg$f10(s1);
+      }
+      s0 = s1;
+      if (s0 === peg$FAILED) {
+        s0 = peg$currPos;
+        s1 = peg$parseDieName();
+        if (s1 !== peg$FAILED) {
+          peg$savedPos = s0;
+          s1 = peg$f11(s1);
+        }
+        s0 = s1;
+        if (s0 === peg$FAILED) {
+          s0 = peg$parseInteger();
+        }
+      }
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseDiceExpression() {
+    let s0, s1, s2, s3;
+
+    const key = peg$currPos * 34 + 18;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    peg$silentFails++;
+    s0 = peg$currPos;
+    s1 = peg$parseInteger();
+    if (s1 === peg$FAILED) {
+      s1 = null;
+    }
+    if (input.charCodeAt(peg$currPos) === 100) {
+      s2 = peg$c19;
+      peg$currPos++;
+    } else {
+      s2 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e34); }
+    }
+    if (s2 !== peg$FAILED) {
+      s3 = peg$parseDiceSides();
+      if (s3 !== peg$FAILED) {
+        peg$savedPos = s0;
+        s0 = peg$f12(s1, s3);
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+    peg$silentFails--;
+    if (s0 === peg$FAILED) {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e33); }
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseLiteral() {
+    let s0, s1;
+
+    const key = peg$currPos * 34 + 19;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    peg$silentFails++;
+    s0 = peg$currPos;
+    s1 = peg$parseDecimal();
+    if (s1 !== peg$FAILED) {
+      peg$savedPos = s0;
+      s1 = peg$f13(s1);
+    }
+    s0 = s1;
+    if (s0 === peg$FAILED) {
+      s0 = peg$currPos;
+      s1 = peg$parseInteger();
+      if (s1 !== peg$FAILED) {
+        peg$savedPos = s0;
+        s1 = peg$f14(s1);
+      }
+      s0 = s1;
+    }
+    peg$silentFails--;
+    if (s0 === peg$FAILED) {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e35); }
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseDice() {
+    let s0, s1, s2, s3, s4;
+
+    const key = peg$currPos * 34 + 20;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = peg$currPos;
+    s1 = peg$parseDiceExpression();
+    if (s1 !== peg$FAILED) {
+      s2 = [];
+      s3 = peg$parseDiceOperation();
+      while (s3 !== peg$FAILED) {
+        s2.push(s3);
+        s3 = peg$parseDiceOperation();
+      }
+      s3 = peg$currPos;
+      peg$silentFails++;
+      s4 = peg$parseIdentifierCharacter();
+      peg$silentFails--;
+      if (s4 === peg$FAILED) {
+        s3 = undefined;
+      } else {
+        peg$currPos = s3;
+        s3 = peg$FAILED;
+      }
+      if (s3 !== peg$FAILED) {
+        peg$savedPos = s0;
+        s0 = peg$f15(s1, s2);
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseIdentifierCharacter() {
+    let s0;
+
+    const key = peg$currPos * 34 + 21;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = input.charAt(peg$currPos);
+    if (peg$r8.test(s0)) {
+      peg$currPos++;
+    } else {
+      s0 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e31); }
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseIdentifier() {
+    let s0, s1, s2, s3, s4;
+
+    const key = peg$currPos * 34 + 22;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    peg$silentFails++;
+    s0 = peg$currPos;
+    s1 = peg$currPos;
+    s2 = input.charAt(peg$currPos);
+    if (peg$r7.test(s2)) {
+      peg$currPos++;
+    } else {
+      s2 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e30); }
+    }
+    if (s2 !== peg$FAILED) {
+      s3 = [];
+      s4 = peg$parseIdentifierCharacter();
+      while (s4 !== peg$FAILED) {
+        s3.push(s4);
+        s4 = peg$parseIdentifierCharacter();
+      }
+      s2 = [s2, s3];
+      s1 = s2;
+    } else {
+      peg$currPos = s1;
+      s1 = peg$FAILED;
+    }
+    if (s1 !== peg$FAILED) {
+      s0 = input.substring(s0, peg$currPos);
+    } else {
+      s0 = s1;
+    }
+    peg$silentFails--;
+    if (s0 === peg$FAILED) {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e36); }
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseName() {
+    let s0, s1, s2, s3, s4, s5;
+
+    const key = peg$currPos * 34 + 23;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = peg$currPos;
+    s1 = peg$currPos;
+    peg$silentFails++;
+    s2 = peg$currPos;
+    s3 = peg$parseDiceOperation();
+    if (s3 !== peg$FAILED) {
+      s4 = peg$currPos;
+      peg$silentFails++;
+      s5 = peg$parseIdentifierCharacter();
+      peg$silentFails--;
+      if (s5 === peg$FAILED) {
+        s4 = undefined;
+      } else {
+        peg$currPos = s4;
+        s4 = peg$FAILED;
+      }
+      if (s4 !== peg$FAILED) {
+        s3 = [s3, s4];
+        s2 = s3;
+      } else {
+        peg$currPos = s2;
+        s2 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s2;
+      s2 = peg$FAILED;
+    }
+    peg$silentFails--;
+    if (s2 === peg$FAILED) {
+      s1 = undefined;
+    } else {
+      peg$currPos = s1;
+      s1 = peg$FAILED;
+    }
+    if (s1 !== peg$FAILED) {
+      s2 = peg$parseIdentifier();
+      if (s2 !== peg$FAILED) {
+        peg$savedPos = s0;
+        s0 = peg$f16(s2);
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseVariable() {
+    let s0, s1;
+
+    const key = peg$currPos * 34 + 24;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = peg$currPos;
+    s1 = peg$parseName();
+    if (s1 !== peg$FAILED) {
+      peg$savedPos = s0;
+      s1 = peg$f17(s1);
+    }
+    s0 = s1;
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseFunctionCall() {
+    let s0, s1, s2, s3, s4, s5, s6, s7, s8;
+
+    const key = peg$currPos * 34 + 25;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = peg$currPos;
+    s1 = peg$parseName();
+    if (s1 !== peg$FAILED) {
+      s2 = peg$parsews();
+      if (input.charCodeAt(peg$currPos) === 40) {
+        s3 = peg$c20;
+        peg$currPos++;
+      } else {
+        s3 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e37); }
+      }
+      if (s3 !== peg$FAILED) {
+        s4 = peg$parseComparison();
+        if (s4 !== peg$FAILED) {
+          s5 = [];
+          s6 = peg$currPos;
+          if (input.charCodeAt(peg$currPos) === 44) {
+            s7 = peg$c17;
+            peg$currPos++;
+          } else {
+            s7 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$e28); }
+          }
+          if (s7 !== peg$FAILED) {
+            s8 = peg$parseComparison();
+            if (s8 !== peg$FAILED) {
+              peg$savedPos = s6;
+              s6 = peg$f18(s1, s4, s8);
+            } else {
+              peg$currPos = s6;
+              s6 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s6;
+            s6 = peg$FAILED;
+          }
+          while (s6 !== peg$FAILED) {
+            s5.push(s6);
+            s6 = peg$currPos;
+            if (input.charCodeAt(peg$currPos) === 44) {
+              s7 = peg$c17;
+              peg$currPos++;
+            } else {
+              s7 = peg$FAILED;
+              if (peg$silentFails === 0) { peg$fail(peg$e28); }
+            }
+            if (s7 !== peg$FAILED) {
+              s8 = peg$parseComparison();
+              if (s8 !== peg$FAILED) {
+                peg$savedPos = s6;
+                s6 = peg$f18(s1, s4, s8);
+              } else {
+                peg$currPos = s6;
+                s6 = peg$FAILED;
+              }
+            } else {
+              peg$currPos = s6;
+              s6 = peg$FAILED;
+            }
+          }
+          if (input.charCodeAt(peg$currPos) === 41) {
+            s6 = peg$c21;
+            peg$currPos++;
+          } else {
+            s6 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$e38); }
+          }
+          if (s6 !== peg$FAILED) {
+            peg$savedPos = s0;
+            s0 = peg$f19(s1, s4, s5);
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseSet() {
+    let s0, s1, s2, s3, s4, s5, s6, s7;
+
+    const key = peg$currPos * 34 + 26;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = peg$currPos;
+    if (input.charCodeAt(peg$currPos) === 40) {
+      s1 = peg$c20;
+      peg$currPos++;
+    } else {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e37); }
+    }
+    if (s1 !== peg$FAILED) {
+      s2 = peg$parsews();
+      if (input.charCodeAt(peg$currPos) === 41) {
+        s3 = peg$c21;
+        peg$currPos++;
+      } else {
+        s3 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e38); }
+      }
+      if (s3 !== peg$FAILED) {
+        s4 = [];
+        s5 = peg$parseSetOperation();
+        while (s5 !== peg$FAILED) {
+          s4.push(s5);
+          s5 = peg$parseSetOperation();
+        }
+        peg$savedPos = s0;
+        s0 = peg$f20(s4);
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+    if (s0 === peg$FAILED) {
+      s0 = peg$currPos;
+      if (input.charCodeAt(peg$currPos) === 40) {
+        s1 = peg$c20;
+        peg$currPos++;
+      } else {
+        s1 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e37); }
+      }
+      if (s1 !== peg$FAILED) {
+        s2 = peg$parseComparison();
+        if (s2 !== peg$FAILED) {
+          s3 = [];
+          s4 = peg$currPos;
+          if (input.charCodeAt(peg$currPos) === 44) {
+            s5 = peg$c17;
+            peg$currPos++;
+          } else {
+            s5 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$e28); }
+          }
+          if (s5 !== peg$FAILED) {
+            s6 = peg$parseComparison();
+            if (s6 !== peg$FAILED) {
+              peg$savedPos = s4;
+              s4 = peg$f21(s2, s6);
+            } else {
+              peg$currPos = s4;
+              s4 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s4;
+            s4 = peg$FAILED;
+          }
+          while (s4 !== peg$FAILED) {
+            s3.push(s4);
+            s4 = peg$currPos;
+            if (input.charCodeAt(peg$currPos) === 44) {
+              s5 = peg$c17;
+              peg$currPos++;
+            } else {
+              s5 = peg$FAILED;
+              if (peg$silentFails === 0) { peg$fail(peg$e28); }
+            }
+            if (s5 !== peg$FAILED) {
+              s6 = peg$parseComparison();
+              if (s6 !== peg$FAILED) {
+                peg$savedPos = s4;
+                s4 = peg$f21(s2, s6);
+              } else {
+                peg$currPos = s4;
+                s4 = peg$FAILED;
+              }
+            } else {
+              peg$currPos = s4;
+              s4 = peg$FAILED;
+            }
+          }
+          s4 = peg$currPos;
+          if (input.charCodeAt(peg$currPos) === 44) {
+            s5 = peg$c17;
+            peg$currPos++;
+          } else {
+            s5 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$e28); }
+          }
+          if (s5 !== peg$FAILED) {
+            s6 = peg$parsews();
+            s5 = [s5, s6];
+            s4 = s5;
+          } else {
+            peg$currPos = s4;
+            s4 = peg$FAILED;
+          }
+          if (s4 === peg$FAILED) {
+            s4 = null;
+          }
+          if (input.charCodeAt(peg$currPos) === 41) {
+            s5 = peg$c21;
+            peg$currPos++;
+          } else {
+            s5 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$e38); }
+          }
+          if (s5 !== peg$FAILED) {
+            s6 = [];
+            s7 = peg$parseSetOperation();
+            while (s7 !== peg$FAILED) {
+              s6.push(s7);
+              s7 = peg$parseSetOperation();
+            }
+            peg$savedPos = peg$currPos;
+            s7 = peg$f22(s2, s3, s4, s6);
+            if (s7) {
+              s7 = undefined;
+            } else {
+              s7 = peg$FAILED;
+            }
+            if (s7 !== peg$FAILED) {
+              peg$savedPos = s0;
+              s0 = peg$f23(s2, s3, s4, s6);
+            } else {
+              peg$currPos = s0;
+              s0 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseAnnotation() {
+    let s0, s1, s2, s3, s4;
+
+    const key = peg$currPos * 34 + 27;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    peg$silentFails++;
+    s0 = peg$currPos;
+    if (input.charCodeAt(peg$currPos) === 91) {
+      s1 = peg$c22;
+      peg$currPos++;
+    } else {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e40); }
+    }
+    if (s1 !== peg$FAILED) {
+      s2 = peg$currPos;
+      s3 = [];
+      s4 = input.charAt(peg$currPos);
+      if (peg$r10.test(s4)) {
+        peg$currPos++;
+      } else {
+        s4 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e41); }
+      }
+      while (s4 !== peg$FAILED) {
+        s3.push(s4);
+        s4 = input.charAt(peg$currPos);
+        if (peg$r10.test(s4)) {
+          peg$currPos++;
+        } else {
+          s4 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e41); }
+        }
+      }
+      s2 = input.substring(s2, peg$currPos);
+      if (input.charCodeAt(peg$currPos) === 93) {
+        s3 = peg$c23;
+        peg$currPos++;
+      } else {
+        s3 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e42); }
+      }
+      if (s3 !== peg$FAILED) {
+        s4 = peg$parsews();
+        peg$savedPos = s0;
+        s0 = peg$f24(s2);
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+    peg$silentFails--;
+    if (s0 === peg$FAILED) {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e39); }
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseComment() {
+    let s0, s1, s2, s3, s4;
+
+    const key = peg$currPos * 34 + 28;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    peg$silentFails++;
+    s0 = peg$currPos;
+    if (input.charCodeAt(peg$currPos) === 35) {
+      s1 = peg$c24;
+      peg$currPos++;
+    } else {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e44); }
+    }
+    if (s1 !== peg$FAILED) {
+      s2 = peg$currPos;
+      s3 = [];
+      if (input.length > peg$currPos) {
+        s4 = input.charAt(peg$currPos);
+        peg$currPos++;
+      } else {
+        s4 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e45); }
+      }
+      while (s4 !== peg$FAILED) {
+        s3.push(s4);
+        if (input.length > peg$currPos) {
+          s4 = input.charAt(peg$currPos);
+          peg$currPos++;
+        } else {
+          s4 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e45); }
+        }
+      }
+      s2 = input.substring(s2, peg$currPos);
+      peg$savedPos = s0;
+      s0 = peg$f25(s2);
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+    peg$silentFails--;
+    if (s0 === peg$FAILED) {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e43); }
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseComparison() {
+    let s0, s1, s2, s3;
+
+    const key = peg$currPos * 34 + 29;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = peg$currPos;
+    s1 = peg$parseSum();
+    if (s1 !== peg$FAILED) {
+      s2 = peg$parseCompOperator();
+      if (s2 !== peg$FAILED) {
+        s3 = peg$parseComparison();
+        if (s3 !== peg$FAILED) {
+          peg$savedPos = s0;
+          s0 = peg$f26(s1, s2, s3);
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+    if (s0 === peg$FAILED) {
+      s0 = peg$parseSum();
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseSum() {
+    let s0, s1, s2, s3;
+
+    const key = peg$currPos * 34 + 30;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = peg$currPos;
+    s1 = peg$parseUnary();
+    if (s1 !== peg$FAILED) {
+      s2 = peg$parseAddOperator();
+      if (s2 !== peg$FAILED) {
+        s3 = peg$parseSum();
+        if (s3 !== peg$FAILED) {
+          peg$savedPos = s0;
+          s0 = peg$f27(s1, s2, s3);
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
       }
     } else {
       peg$currPos = s0;
@@ -928,19 +2172,30 @@ function peg$parse(input, options) {
       s0 = peg$parseUnary();
     }
 
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
     return s0;
   }
 
   function peg$parseUnary() {
     let s0, s1, s2;
 
+    const key = peg$currPos * 34 + 31;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
     s0 = peg$currPos;
     s1 = peg$parseUnaryOperator();
     if (s1 !== peg$FAILED) {
       s2 = peg$parseUnary();
       if (s2 !== peg$FAILED) {
         peg$savedPos = s0;
-        s0 = peg$f10(s1, s2);
+        s0 = peg$f28(s1, s2);
       } else {
         peg$currPos = s0;
         s0 = peg$FAILED;
@@ -953,12 +2208,23 @@ function peg$parse(input, options) {
       s0 = peg$parseProduct();
     }
 
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
     return s0;
   }
 
   function peg$parseProduct() {
     let s0, s1, s2, s3;
 
+    const key = peg$currPos * 34 + 32;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
     s0 = peg$currPos;
     s1 = peg$parseFactor();
     if (s1 !== peg$FAILED) {
@@ -967,7 +2233,7 @@ function peg$parse(input, options) {
         s3 = peg$parseProduct();
         if (s3 !== peg$FAILED) {
           peg$savedPos = s0;
-          s0 = peg$f11(s1, s2, s3);
+          s0 = peg$f29(s1, s2, s3);
         } else {
           peg$currPos = s0;
           s0 = peg$FAILED;
@@ -984,43 +2250,36 @@ function peg$parse(input, options) {
       s0 = peg$parseFactor();
     }
 
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
     return s0;
   }
 
   function peg$parseFactor() {
-    let s0, s1, s2, s3, s4, s5;
+    let s0, s1, s2, s3, s4, s5, s6, s7;
+
+    const key = peg$currPos * 34 + 33;
+    const cached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
 
     s0 = peg$currPos;
     s1 = peg$parsews();
-    if (input.charCodeAt(peg$currPos) === 40) {
-      s2 = peg$c14;
-      peg$currPos++;
-    } else {
-      s2 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$e21); }
-    }
+    s2 = peg$parseSet();
     if (s2 !== peg$FAILED) {
-      s3 = peg$parseComparison();
-      if (s3 !== peg$FAILED) {
-        if (input.charCodeAt(peg$currPos) === 41) {
-          s4 = peg$c15;
-          peg$currPos++;
-        } else {
-          s4 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$e22); }
-        }
-        if (s4 !== peg$FAILED) {
-          s5 = peg$parsews();
-          peg$savedPos = s0;
-          s0 = peg$f12(s3);
-        } else {
-          peg$currPos = s0;
-          s0 = peg$FAILED;
-        }
-      } else {
-        peg$currPos = s0;
-        s0 = peg$FAILED;
+      s3 = peg$parsews();
+      s4 = [];
+      s5 = peg$parseAnnotation();
+      while (s5 !== peg$FAILED) {
+        s4.push(s5);
+        s5 = peg$parseAnnotation();
       }
+      peg$savedPos = s0;
+      s0 = peg$f30(s2, s4);
     } else {
       peg$currPos = s0;
       s0 = peg$FAILED;
@@ -1028,11 +2287,41 @@ function peg$parse(input, options) {
     if (s0 === peg$FAILED) {
       s0 = peg$currPos;
       s1 = peg$parsews();
-      s2 = peg$parseDice();
+      if (input.charCodeAt(peg$currPos) === 40) {
+        s2 = peg$c20;
+        peg$currPos++;
+      } else {
+        s2 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e37); }
+      }
       if (s2 !== peg$FAILED) {
-        s3 = peg$parsews();
-        peg$savedPos = s0;
-        s0 = peg$f13(s2);
+        s3 = peg$parseComparison();
+        if (s3 !== peg$FAILED) {
+          if (input.charCodeAt(peg$currPos) === 41) {
+            s4 = peg$c21;
+            peg$currPos++;
+          } else {
+            s4 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$e38); }
+          }
+          if (s4 !== peg$FAILED) {
+            s5 = peg$parsews();
+            s6 = [];
+            s7 = peg$parseAnnotation();
+            while (s7 !== peg$FAILED) {
+              s6.push(s7);
+              s7 = peg$parseAnnotation();
+            }
+            peg$savedPos = s0;
+            s0 = peg$f31(s3, s6);
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
       } else {
         peg$currPos = s0;
         s0 = peg$FAILED;
@@ -1040,18 +2329,83 @@ function peg$parse(input, options) {
       if (s0 === peg$FAILED) {
         s0 = peg$currPos;
         s1 = peg$parsews();
-        s2 = peg$parseLiteral();
+        s2 = peg$parseDice();
         if (s2 !== peg$FAILED) {
           s3 = peg$parsews();
+          s4 = [];
+          s5 = peg$parseAnnotation();
+          while (s5 !== peg$FAILED) {
+            s4.push(s5);
+            s5 = peg$parseAnnotation();
+          }
           peg$savedPos = s0;
-          s0 = peg$f14(s2);
+          s0 = peg$f32(s2, s4);
         } else {
           peg$currPos = s0;
           s0 = peg$FAILED;
         }
+        if (s0 === peg$FAILED) {
+          s0 = peg$currPos;
+          s1 = peg$parsews();
+          s2 = peg$parseLiteral();
+          if (s2 !== peg$FAILED) {
+            s3 = peg$parsews();
+            s4 = [];
+            s5 = peg$parseAnnotation();
+            while (s5 !== peg$FAILED) {
+              s4.push(s5);
+              s5 = peg$parseAnnotation();
+            }
+            peg$savedPos = s0;
+            s0 = peg$f33(s2, s4);
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
+          if (s0 === peg$FAILED) {
+            s0 = peg$currPos;
+            s1 = peg$parsews();
+            s2 = peg$parseFunctionCall();
+            if (s2 !== peg$FAILED) {
+              s3 = peg$parsews();
+              s4 = [];
+              s5 = peg$parseAnnotation();
+              while (s5 !== peg$FAILED) {
+                s4.push(s5);
+                s5 = peg$parseAnnotation();
+              }
+              peg$savedPos = s0;
+              s0 = peg$f34(s2, s4);
+            } else {
+              peg$currPos = s0;
+              s0 = peg$FAILED;
+            }
+            if (s0 === peg$FAILED) {
+              s0 = peg$currPos;
+              s1 = peg$parsews();
+              s2 = peg$parseVariable();
+              if (s2 !== peg$FAILED) {
+                s3 = peg$parsews();
+                s4 = [];
+                s5 = peg$parseAnnotation();
+                while (s5 !== peg$FAILED) {
+                  s4.push(s5);
+                  s5 = peg$parseAnnotation();
+                }
+                peg$savedPos = s0;
+                s0 = peg$f35(s2, s4);
+              } else {
+                peg$currPos = s0;
+                s0 = peg$FAILED;
+              }
+            }
+          }
+        }
       }
     }
 
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
     return s0;
   }
 
@@ -1,25 +1,32 @@
-import { Distribution } from './distribution';
+import { Distribution, DistributionOptions } from './distribution';
 import { ASTNode } from './parser';
-import { Parser } from './parser';
-import { Roller, RolledNode } from './roll';
+import { Parser, ParserOptions } from './parser';
+import { SeededRandom } from './random';
+import { Roller, RolledNode, RollerOptions } from './roll';
 
 export * from './roll';
 export * from './parser';
 export * from './errors';
 export * from './distribution';
+export * from './random';
+export * from './stringifier';
+export * from './transform';
+export * from './limits';
+export * from './rational';
 
-export function parse(expression: string): ASTNode {
-  const parser = new Parser();
+export function parse(expression: string, options: ParserOptions = {}): ASTNode {
+  const parser = new Parser(options);
   return parser.parse(expression);
 }
 
-export function roll(expression: string): RolledNode {
-  const ast = parse(expression);
-  const roller = new Roller();
+export function roll(expression: string, options: RollerOptions = {}): RolledNode {
+  // Rolls are seeded by default, so that every roll can be replayed from its seed
+  const ast = parse(expression, { variables: options.variables ?? {}, limits: options.limits });
+  const roller = new Roller({ random: new SeededRandom(), ...options });
   return roller.roll(ast);
 }
 
-export function distribution(expression: string): Distribution {
-  const ast = parse(expression);
-  return Distribution.fromAST(ast);
+export function distribution(expression: string, options: DistributionOptions = {}): Distribution {
+  const ast = parse(expression, { variables: options.variables ?? {}, limits: options.limits });
+  return Distribution.fromAST(ast, options);
 }
@@ -0,0 +1,53 @@
+// ===================================
+// Limits
+// ===================================
+
+/**
+ * Limits on the work done to parse, roll and calculate the distribution of an expression. Exceeding a limit raises an
+ * error specific to that limit, e.g. TooManyDiceError for maxDice, which carries the offending node when there is one.
+ */
+export interface Limits {
+  // The maximum number of times a die can be rolled during a roll, including rerolls and explosions. A Roller with the
+  // 'session' limit scope applies this limit to all of its rolls together.
+  maxRolls?: number;
+  // The maximum number of dice in a single dice term, e.g. 10 in 10d6
+  maxDice?: number;
+  // The maximum number of sides of a die
+  maxSides?: number;
+  // The maximum number of times dice can explode in a row during a roll
+  maxExplodeDepth?: number;
+  // The maximum nesting depth of an expression, e.g. 3 for `(1d20 + 5)`
+  maxDepth?: number;
+  // The maximum number of characters in an expression
+  maxLength?: number;
+  // The maximum number of times an expression is repeated, e.g. 3 in `adv(1d20, 3)`
+  maxRepeats?: number;
+  // The maximum number of states kept in memory while calculating a distribution
+  maxStates?: number;
+  // The maximum number of different totals of a dice term, e.g. 91 for 10d10
+  maxOutcomes?: number;
+  // The maximum number of different totals of a dice term in an exact distribution, whose rational probabilities take
+  // far more time to calculate than floats
+  maxExactOutcomes?: number;
+}
+
+export const DefaultLimits: Required<Limits> = {
+  maxRolls: 1000,
+  maxDice: Infinity,
+  maxSides: Infinity,
+  maxExplodeDepth: Infinity,
+  maxDepth: Infinity,
+  maxLength: Infinity,
+  maxRepeats: 100,
+  maxStates: 250_000,
+  maxOutcomes: 1_000_000,
+  maxExactOutcomes: 10_000, // Allow 100d100, which already takes about a second
+};
+
+export function resolveLimits(limits: Limits = {}): Required<Limits> {
+  const resolved = { ...DefaultLimits };
+  for (const [key, value] of Object.entries(limits) as [keyof Limits, number | undefined][]) {
+    if (value !== undefined) resolved[key] = value;
+  }
+  return resolved;
+}
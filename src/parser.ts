@@ -1,24 +1,125 @@
-import { ParserError } from './errors';
+import { ExpressionTooDeepError, ExpressionTooLongError, ParserError, TooManyRepeatsError, UndefinedVariableError } from './errors';
+import { Limits, resolveLimits } from './limits';
+import { range } from './util';
 
-import { parse } from './grammar';
+import { Expectation, parse, SyntaxError } from './grammar';
+
+// Values of the variables in an expression, e.g. `{ str: 3, prof: 2 }` for `1d20 + str + prof`
+export type Variables = Record<string, number>;
+
+export interface ParserOptions {
+  // When given, every variable in the expression has to be defined
+  variables?: Variables;
+  // Limits on the length and nesting depth of the expression
+  limits?: Limits;
+}
 
 export class Parser {
+  private readonly options: ParserOptions;
+
+  constructor(options: ParserOptions = {}) {
+    this.options = options;
+  }
+
   public parse(expression: string): ASTNode {
+    const { maxLength, maxDepth, maxRepeats } = resolveLimits(this.options.limits);
+    if (expression.length > maxLength) {
+      throw new ExpressionTooLongError(`The expression is ${expression.length} characters long, but at most ${maxLength} characters are allowed.`, expression);
+    }
+
+    let parsed: any;
     try {
-      const parsed = parse(expression);
-      return this.parseNode(parsed);
-    } catch {
-      throw new ParserError(`Could not parse expression '${expression}'!`);
+      parsed = parse(expression);
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw this.syntaxError(expression, error);
+      }
+      throw new ParserError(`Could not parse expression '${expression}'!`, { expression });
+    }
+
+    const node = this.parseNode(parsed);
+    const tooDeep = findTooDeep(node, maxDepth);
+    if (tooDeep !== null) {
+      throw new ExpressionTooDeepError(`The expression is nested more than ${maxDepth} levels deep.`, expression, tooDeep);
     }
+    const tooManyRepeats = findTooManyRepeats(node, maxRepeats);
+    if (tooManyRepeats !== null) {
+      throw new TooManyRepeatsError(`Cannot repeat an expression ${tooManyRepeats.count} times, at most ${maxRepeats} repeats are allowed.`, expression, tooManyRepeats);
+    }
+    return node;
   }
 
   private parseNode(node: any): ASTNode {
+    const parsed = this.parseInnerNode(node);
+    parsed.annotations = node.annotations ?? [];
+    parsed.comment = node.comment ?? null;
+    return parsed;
+  }
+
+  private parseAdvantage(node: any): ASTAdvantage {
+    // e.g. adv(1d20 + 5) or adv(1d20 + 5, 3), where the number of rolls has to be a number
+    const [value, count] = node.args;
+    if (node.args.length > 2 || (count !== undefined && count.type !== 'Literal')) {
+      throw new ParserError(`The function '${node.name}' expects an expression and optionally the number of rolls.`);
+    }
+    return new ASTAdvantage(AdvantageFunctions[node.name], this.parseNode(value), count?.value ?? 2);
+  }
+
+  private parseFaces(sides: any): number | DieFaces {
+    if (sides === 'F') return DieFaces.fudge();
+    if (sides === '%') return DieFaces.percentile();
+    if (sides.faces) return DieFaces.custom(sides.faces);
+    if (sides.name) {
+      const faces = namedDice.get(sides.name);
+      if (faces === undefined) {
+        throw new ParserError(`Unknown die '${sides.name}', dice need to be registered using registerDie.`);
+      }
+      return faces;
+    }
+    return sides;
+  }
+
+  private syntaxError(expression: string, error: SyntaxError): ParserError {
+    const { offset, line, column } = error.location.start;
+    const found = error.found ?? null;
+    const expected = Array.from(new Set(error.expected.map(describeExpectation))).sort();
+
+    const foundText = found === null ? 'end of expression' : `'${found}'`;
+    const message = `Could not parse expression '${expression}': expected ${expected.join(', ')} but found ${foundText} at line ${line}, column ${column}!`;
+    return new ParserError(message, { expression, location: { offset, line, column }, found, expected });
+  }
+
+  private parseInnerNode(node: any): ASTNode {
     if (node.type === 'Literal') {
       return new ASTLiteral(node.value);
     }
     if (node.type === 'Dice') {
       const operations = node.op.map((op: any) => new DiceOperation(op.op, new Selector(op.selector.type, op.selector.value)));
-      return new ASTDice(node.expression.count, node.expression.sides, operations);
+      return new ASTDice(node.expression.count, this.parseFaces(node.expression.sides), operations);
+    }
+    if (node.type === 'Set') {
+      const elements = node.elements.map((element: any) => this.parseNode(element));
+      const operations = node.op.map((op: any) => new DiceOperation(op.op, new Selector(op.selector.type, op.selector.value)));
+      return new ASTSet(elements, operations);
+    }
+    if (node.type === 'Function' && Object.prototype.hasOwnProperty.call(AdvantageFunctions, node.name)) {
+      return this.parseAdvantage(node);
+    }
+    if (node.type === 'Function') {
+      const arity = functionArity(node.name);
+      if (arity === undefined) {
+        throw new ParserError(`Unknown function '${node.name}'.`);
+      }
+      if (arity !== null && node.args.length !== arity) {
+        throw new ParserError(`The function '${node.name}' expects ${arity} argument(s), but ${node.args.length} were given.`);
+      }
+      return new ASTFunction(node.name, node.args.map((arg: any) => this.parseNode(arg)));
+    }
+    if (node.type === 'Variable') {
+      if (this.options.variables !== undefined) {
+        resolveVariable(this.options.variables, node.name);
+      }
+      return new ASTVariable(node.name);
     }
     if (node.type === 'Parenthetical') {
       return new ASTParenthetical(this.parseNode(node.expression));
@@ -40,12 +141,67 @@ export class Parser {
   }
 }
 
+function describeExpectation(expectation: Expectation): string {
+  if (expectation.type === 'literal') return `'${expectation.text}'`;
+  if (expectation.type === 'any') return 'any character';
+  if (expectation.type === 'end') return 'end of expression';
+  if (expectation.type === 'other') return expectation.description;
+
+  const parts = expectation.parts.map((part) => (Array.isArray(part) ? `${part[0]}-${part[1]}` : part));
+  return `[${expectation.inverted ? '^' : ''}${parts.join('')}]`;
+}
+
 // ===================================
 // AST classes
 // ===================================
 
 export abstract class ASTNode {
+  // Annotations attached to the node, e.g. `fire` in `2d6 [fire]`
+  public annotations: string[] = [];
+  // The comment at the end of the expression, only set on the root node
+  public comment: string | null = null;
+
   public abstract toString(): string;
+
+  // The nodes directly nested in this node
+  public children(): ASTNode[] {
+    return [];
+  }
+
+  protected decorate(text: string): string {
+    return withAnnotations(text, this.annotations, this.comment);
+  }
+}
+
+// Returns the first node nested deeper than the given depth, where the root node has depth 1
+function findTooDeep(node: ASTNode, maxDepth: number, depth: number = 1): ASTNode | null {
+  if (depth > maxDepth) return node;
+  for (const child of node.children()) {
+    const tooDeep = findTooDeep(child, maxDepth, depth + 1);
+    if (tooDeep !== null) return tooDeep;
+  }
+  return null;
+}
+
+// Finds the first adv or dis function that repeats its expression more than maxRepeats times
+function findTooManyRepeats(node: ASTNode, maxRepeats: number): ASTAdvantage | null {
+  if (node instanceof ASTAdvantage && node.count > maxRepeats) return node;
+  for (const child of node.children()) {
+    const tooMany = findTooManyRepeats(child, maxRepeats);
+    if (tooMany !== null) return tooMany;
+  }
+  return null;
+}
+
+export function withAnnotations(text: string, annotations: string[], comment: string | null): string {
+  const annotated = [text, ...annotations.map((annotation) => `[${annotation}]`)].join(' ');
+  return comment === null ? annotated : `${annotated} # ${comment}`;
+}
+
+// Formats the elements of a set, a single element without operations needs a trailing comma to not be a parenthetical
+export function formatSet(elements: string[], operations: string): string {
+  const trailing = elements.length === 1 && operations.length === 0 ? ',' : '';
+  return `(${elements.join(', ')}${trailing})${operations}`;
 }
 
 export class ASTLiteral extends ASTNode {
@@ -57,25 +213,105 @@ export class ASTLiteral extends ASTNode {
   }
 
   public toString(): string {
-    return this.value.toString();
+    return this.decorate(this.value.toString());
+  }
+}
+
+export class ASTVariable extends ASTNode {
+  public readonly name: string;
+
+  constructor(name: string) {
+    super();
+    this.name = name;
+  }
+
+  public toString(): string {
+    return this.decorate(this.name);
   }
 }
 
+export type AdvantageMode = 'advantage' | 'disadvantage';
+
+export interface AdvantageOptions {
+  mode: AdvantageMode;
+  // The number of times the expression is rolled, e.g. 3 for elven accuracy, defaults to 2
+  count?: number;
+}
+
+const AdvantageFunctions: Record<string, AdvantageMode> = { adv: 'advantage', dis: 'disadvantage' };
+
+// Formats an expression that is rolled with advantage or disadvantage, e.g. `adv(1d20 + 5)`
+export function formatAdvantage(mode: AdvantageMode, value: string, count: number): string {
+  const name = mode === 'advantage' ? 'adv' : 'dis';
+  return count === 2 ? `${name}(${value})` : `${name}(${value}, ${count})`;
+}
+
+export class ASTAdvantage extends ASTNode {
+  public readonly mode: AdvantageMode;
+  public readonly value: ASTNode;
+  public readonly count: number;
+
+  constructor(mode: AdvantageMode, value: ASTNode, count: number = 2) {
+    super();
+    if (!Number.isInteger(count) || count < 1) {
+      throw new ParserError(`An expression has to be rolled a positive number of times for ${mode}, but ${count} was given.`);
+    }
+
+    this.mode = mode;
+    this.value = value;
+    this.count = count;
+  }
+
+  public toString(): string {
+    return this.decorate(formatAdvantage(this.mode, this.value.toString(), this.count));
+  }
+  public children(): ASTNode[] {
+    return [this.value];
+  }
+}
+
+export class ASTFunction extends ASTNode {
+  public readonly name: string;
+  public readonly args: ASTNode[];
+
+  constructor(name: string, args: ASTNode[]) {
+    super();
+    this.name = name;
+    this.args = args;
+  }
+
+  public toString(): string {
+    return this.decorate(`${this.name}(${this.args.map((arg) => arg.toString()).join(', ')})`);
+  }
+  public children(): ASTNode[] {
+    return this.args;
+  }
+}
+
+export function resolveVariable(variables: Variables | undefined, name: string): number {
+  if (variables === undefined || !Object.prototype.hasOwnProperty.call(variables, name)) {
+    throw new UndefinedVariableError(name);
+  }
+  return variables[name];
+}
+
 export class ASTDice extends ASTNode {
   public readonly count: number;
   public readonly sides: number;
+  public readonly faces: DieFaces;
   public readonly operations: DiceOperation[];
 
-  constructor(count: number, sides: number, operations: DiceOperation[]) {
+  constructor(count: number, sides: number | DieFaces, operations: DiceOperation[]) {
     super();
     this.count = count;
-    this.sides = sides;
+    this.faces = sides instanceof DieFaces ? sides : DieFaces.standard(sides);
+    this.sides = this.faces.sides;
     this.operations = operations;
   }
 
   public toString(): string {
     const modifiers = this.operations.map((op) => op.toString()).join('');
-    return `${this.count}d${this.sides}${modifiers}`;
+    return this.decorate(`${this.count}d${this.faces.label}${modifiers}`);
   }
 
   public isOperated(): boolean {
@@ -83,6 +319,26 @@ export class ASTDice extends ASTNode {
   }
 }
 
+export class ASTSet extends ASTNode {
+  public readonly elements: ASTNode[];
+  public readonly operations: DiceOperation[];
+
+  constructor(elements: ASTNode[], operations: DiceOperation[]) {
+    super();
+    this.elements = elements;
+    this.operations = operations;
+  }
+
+  public toString(): string {
+    const elements = this.elements.map((element) => element.toString());
+    const modifiers = this.operations.map((op) => op.toString()).join('');
+    return this.decorate(formatSet(elements, modifiers));
+  }
+  public children(): ASTNode[] {
+    return this.elements;
+  }
+}
+
 export class ASTUnOp extends ASTNode {
   public readonly op: string;
   public readonly value: ASTNode;
@@ -94,7 +350,10 @@ export class ASTUnOp extends ASTNode {
   }
 
   public toString(): string {
-    return `${this.op}${this.value.toString()}`;
+    return this.decorate(`${this.op}${this.value.toString()}`);
+  }
+  public children(): ASTNode[] {
+    return [this.value];
   }
 }
 
@@ -111,7 +370,10 @@ export class ASTBinOp extends ASTNode {
   }
 
   public toString(): string {
-    return `${this.left.toString()} ${this.op} ${this.right.toString()}`;
+    return this.decorate(`${this.left.toString()} ${this.op} ${this.right.toString()}`);
+  }
+  public children(): ASTNode[] {
+    return [this.left, this.right];
   }
 }
 
@@ -124,10 +386,154 @@ export class ASTParenthetical extends ASTNode {
   }
 
   public toString(): string {
-    return `(${this.value.toString()})`;
+    return this.decorate(`(${this.value.toString()})`);
+  }
+  public children(): ASTNode[] {
+    return [this.value];
   }
 }
 
+// ===================================
+// Dice faces
+// ===================================
+
+/**
+ * The values on the faces of a die, each face being equally likely. Most dice are numbered from one up to their
+ * number of sides, but dice can have any integer faces, e.g. -1, 0 and 1 for fudge dice.
+ */
+export class DieFaces {
+  // The number of faces of the die
+  public readonly sides: number;
+  // How the faces are written after the `d`, e.g. `6`, `F` or `{2,4,6,8}`
+  public readonly label: string;
+  // The values of dice with custom faces, standard dice only store their number of sides
+  private readonly custom: number[] | null;
+  private readonly standard: boolean;
+
+  constructor(values: number[] | number, label: string) {
+    if (typeof values === 'number') {
+      this.sides = values;
+      this.custom = null;
+      this.standard = true;
+    } else {
+      if (values.some((value) => !Number.isInteger(value))) {
+        throw new ParserError(`The faces of a die must be integers, but '${values.join(',')}' was given.`);
+      }
+      this.sides = values.length;
+      this.custom = values;
+      this.standard = values.every((value, index) => value === index + 1);
+    }
+
+    this.label = label;
+  }
+
+  public static standard(sides: number): DieFaces {
+    return new DieFaces(sides, sides.toString());
+  }
+
+  public static fudge(): DieFaces {
+    return new DieFaces([-1, 0, 1], 'F');
+  }
+
+  public static percentile(): DieFaces {
+    return new DieFaces(100, '%');
+  }
+
+  public static custom(values: number[]): DieFaces {
+    return new DieFaces(values, `{${values.join(',')}}`);
+  }
+
+  // The values of all faces, which are only created on demand for standard dice
+  public get values(): number[] {
+    return this.custom ?? range(1, this.sides);
+  }
+
+  // The value of the face at the given (0-based) index
+  public face(index: number): number {
+    return this.custom === null ? index + 1 : this.custom[index];
+  }
+
+  // Whether the faces are numbered from one up to the number of sides
+  public isStandard(): boolean {
+    return this.standard;
+  }
+
+  public min(): number {
+    return this.custom === null ? 1 : Math.min(...this.custom);
+  }
+
+  public max(): number {
+    return this.custom === null ? this.sides : Math.max(...this.custom);
+  }
+}
+
+export interface CriticalOptions {
+  // The number of sides of the dice that can score critical hits and fumbles, defaults to 20
+  sides?: number;
+  // The lowest value that is a critical hit, e.g. 19 for a critical range of 19-20, defaults to the highest face
+  critical?: number;
+  // The highest value that is a fumble, defaults to the lowest face
+  fumble?: number;
+}
+
+export interface CriticalThresholds {
+  // Dice showing this value or higher are critical hits
+  critical: number;
+  // Dice showing this value or lower are fumbles
+  fumble: number;
+}
+
+// Returns the thresholds for critical hits and fumbles of dice with the given faces, or null if the dice cannot score them
+export function criticalThresholds(faces: DieFaces, options: CriticalOptions = {}): CriticalThresholds | null {
+  if (faces.sides !== (options.sides ?? 20)) return null;
+  return { critical: options.critical ?? faces.max(), fumble: options.fumble ?? faces.min() };
+}
+
+const namedDice = new Map<string, DieFaces>();
+
+// Registers a die with custom faces, which can then be rolled by name, e.g. `2d{name}`
+export function registerDie(name: string, values: number[]) {
+  if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name)) {
+    throw new ParserError(`Invalid die name '${name}', names can only contain letters, digits and underscores.`);
+  }
+  if (values.length === 0) {
+    throw new ParserError(`The die '${name}' needs at least one face.`);
+  }
+
+  namedDice.set(name, new DieFaces(values, `{${name}}`));
+}
+
+// ===================================
+// Functions
+// ===================================
+
+interface FunctionDefinition {
+  // The number of arguments, null if the function accepts one or more arguments
+  arity: number | null;
+  call: (...values: number[]) => number;
+}
+
+const Functions: Record<string, FunctionDefinition> = {
+  floor: { arity: 1, call: Math.floor },
+  ceil: { arity: 1, call: Math.ceil },
+  round: { arity: 1, call: Math.round },
+  abs: { arity: 1, call: Math.abs },
+  min: { arity: null, call: Math.min },
+  max: { arity: null, call: Math.max },
+};
+
+// Returns the number of arguments of a function, null for any number of arguments, or undefined if the function does not exist
+export function functionArity(name: string): number | null | undefined {
+  return Object.prototype.hasOwnProperty.call(Functions, name) ? Functions[name].arity : undefined;
+}
+
+export function callFunction(name: string, values: number[]): number {
+  if (functionArity(name) === undefined) {
+    throw new ParserError(`Unknown function '${name}'.`);
+  }
+  return Functions[name].call(...values);
+}
+
 // ===================================
 // Operators
 // ===================================
@@ -157,6 +563,11 @@ export class DiceOperation {
   }
 }
 
+// Success and failure counting operations do not change the dice, but change how the total of the dice is calculated
+export function isCountingOperation(operation: DiceOperation): boolean {
+  return operation.op === 'cs' || operation.op === 'cf';
+}
+
 export function selectorMatches(selector: Selector, value: number): boolean {
   if (selector.type === null) return value === selector.value;
   if (selector.type === '<') return value < selector.value;
@@ -0,0 +1,78 @@
+// ===================================
+// Random sources
+// ===================================
+
+export interface RandomSource {
+  // The seed used to initialize the source, if the source can be replayed
+  readonly seed?: number;
+
+  // Returns a uniformly distributed number in [0, 1)
+  next(): number;
+}
+
+export class MathRandom implements RandomSource {
+  public next(): number {
+    return Math.random();
+  }
+}
+
+export class CryptoRandom implements RandomSource {
+  private readonly buffer = new Uint32Array(1);
+
+  public next(): number {
+    globalThis.crypto.getRandomValues(this.buffer);
+    return this.buffer[0] / 2 ** 32;
+  }
+}
+
+/**
+ * Seedable pseudo-random number generator based on xoshiro128**.
+ * Two sources created with the same seed produce the same sequence of numbers.
+ */
+export class SeededRandom implements RandomSource {
+  public readonly seed: number;
+  private readonly state: Uint32Array;
+
+  constructor(seed?: number) {
+    this.seed = (seed ?? randomSeed()) >>> 0;
+    this.state = new Uint32Array(4);
+
+    // The state is initialized with splitmix32, as xoshiro should not be seeded with (mostly) zeroes
+    let value = this.seed;
+    for (let i = 0; i < this.state.length; i++) {
+      value = (value + 0x9e3779b9) >>> 0;
+      let z = value;
+      z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+      z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+      this.state[i] = (z ^ (z >>> 16)) >>> 0;
+    }
+  }
+
+  public next(): number {
+    const s = this.state;
+    const result = Math.imul(rotl(Math.imul(s[1], 5), 7), 9) >>> 0;
+    const t = s[1] << 9;
+
+    s[2] ^= s[0];
+    s[3] ^= s[1];
+    s[1] ^= s[2];
+    s[0] ^= s[3];
+    s[2] ^= t;
+    s[3] = rotl(s[3], 11);
+
+    return result / 2 ** 32;
+  }
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 2 ** 32);
+}
+
+// Draws a new seed from a random source, e.g. to seed every roll of a roller separately
+export function drawSeed(random: RandomSource): number {
+  return Math.floor(random.next() * 2 ** 32);
+}
+
+function rotl(value: number, shift: number): number {
+  return (value << shift) | (value >>> (32 - shift));
+}
@@ -0,0 +1,91 @@
+// ===================================
+// Rational numbers
+// ===================================
+
+/**
+ * Exact fraction of two arbitrarily large integers, always stored in lowest terms with a positive denominator.
+ */
+export class Rational {
+  public static readonly zero = new Rational(0n);
+  public static readonly one = new Rational(1n);
+
+  public readonly numerator: bigint;
+  public readonly denominator: bigint;
+
+  constructor(numerator: bigint | number, denominator: bigint | number = 1n) {
+    let n = BigInt(numerator);
+    let d = BigInt(denominator);
+    if (d === 0n) {
+      throw new RangeError('The denominator of a rational number cannot be zero!');
+    }
+    if (d < 0n) {
+      n = -n;
+      d = -d;
+    }
+
+    const divisor = gcd(n < 0n ? -n : n, d);
+    this.numerator = n / divisor;
+    this.denominator = d / divisor;
+  }
+
+  public add(other: Rational): Rational {
+    if (this.denominator === other.denominator) return new Rational(this.numerator + other.numerator, this.denominator);
+    return new Rational(this.numerator * other.denominator + other.numerator * this.denominator, this.denominator * other.denominator);
+  }
+
+  public sub(other: Rational): Rational {
+    return this.add(other.neg());
+  }
+
+  public mul(other: Rational): Rational {
+    return new Rational(this.numerator * other.numerator, this.denominator * other.denominator);
+  }
+
+  public div(other: Rational): Rational {
+    return new Rational(this.numerator * other.denominator, this.denominator * other.numerator);
+  }
+
+  public neg(): Rational {
+    return new Rational(-this.numerator, this.denominator);
+  }
+
+  public pow(exponent: number): Rational {
+    if (!Number.isInteger(exponent) || exponent < 0) {
+      throw new RangeError(`A rational number can only be raised to a non-negative integer, but ${exponent} was given!`);
+    }
+    const e = BigInt(exponent);
+    return new Rational(this.numerator ** e, this.denominator ** e);
+  }
+
+  public compare(other: Rational): number {
+    const difference = this.numerator * other.denominator - other.numerator * this.denominator;
+    return difference < 0n ? -1 : difference > 0n ? 1 : 0;
+  }
+
+  public equals(other: Rational): boolean {
+    return this.numerator === other.numerator && this.denominator === other.denominator;
+  }
+
+  public isZero(): boolean {
+    return this.numerator === 0n;
+  }
+
+  public toNumber(): number {
+    // Both parts are shifted when they are too large for a float, as Number() would turn them into Infinity
+    const magnitude = this.numerator < 0n ? -this.numerator : this.numerator;
+    const bits = Math.max(magnitude.toString(2).length, this.denominator.toString(2).length);
+    const shift = BigInt(Math.max(0, bits - 1000));
+    return Number(this.numerator >> shift) / Number(this.denominator >> shift);
+  }
+
+  public toString(): string {
+    return this.denominator === 1n ? this.numerator.toString() : `${this.numerator}/${this.denominator}`;
+  }
+}
+
+function gcd(a: bigint, b: bigint): bigint {
+  while (b !== 0n) {
+    [a, b] = [b, a % b];
+  }
+  return a === 0n ? 1n : a;
+}
@@ -1,15 +1,34 @@
-import { ModifierError, ParserError, TooManyRollsError } from './errors';
+import { ExplodeDepthError, ModifierError, ParserError, TooManyDiceError, TooManyRollsError, TooManySidesError } from './errors';
+import { Limits, resolveLimits } from './limits';
 import {
+  AdvantageMode,
+  AdvantageOptions,
+  ASTAdvantage,
   ASTBinOp,
   ASTDice,
+  ASTFunction,
   ASTLiteral,
   ASTNode,
   ASTParenthetical,
+  ASTSet,
   ASTUnOp,
+  ASTVariable,
+  callFunction,
+  CriticalOptions,
+  criticalThresholds,
   DiceOperation,
+  DieFaces,
+  formatAdvantage,
+  formatSet,
+  isCountingOperation,
+  resolveVariable,
   Selector,
   selectorMatches,
+  Variables,
+  withAnnotations,
 } from './parser';
+import { drawSeed, MathRandom, RandomSource, SeededRandom } from './random';
+import { withAdvantage } from './transform';
 import { sorted } from './util';
 
 // ===================================
@@ -17,11 +36,194 @@ import { sorted } from './util';
 // ===================================
 
 export abstract class RolledNode {
+  // The seed of the random source the roll was made with, if the source can be replayed
+  public seed?: number;
+  // The number of numbers drawn from the random source for the roll, only set on the root node
+  public draws?: number;
+  // Annotations attached to the node, e.g. `fire` in `2d6 [fire]`
+  public annotations: string[] = [];
+  // The comment at the end of the expression, only set on the root node
+  public comment: string | null = null;
+
   public abstract total(): number;
   public abstract toString(): string;
   public abstract expression(): string;
+  public abstract toJSON(): RolledNodeJSON;
+
+  /**
+   * Sums the totals of the annotated nodes per annotation, e.g. the damage per damage type.
+   * Annotated nodes are only attributed through additions, subtractions, unary operators and parentheses.
+   */
+  public annotationTotals(): Map<string, number> {
+    const totals = new Map<string, number>();
+    collectAnnotationTotals(this, 1, totals);
+    return totals;
+  }
+
+  // Whether any of the kept dice is a critical hit, by default a d20 showing a 20
+  public isCritical(options: CriticalOptions = {}): boolean {
+    return collectKeptDice(this).some((die) => {
+      const thresholds = criticalThresholds(die.faces, options);
+      return thresholds !== null && die.naturalValue() >= thresholds.critical;
+    });
+  }
+
+  // Whether any of the kept dice is a fumble, by default a d20 showing a 1
+  public isFumble(options: CriticalOptions = {}): boolean {
+    return collectKeptDice(this).some((die) => {
+      const thresholds = criticalThresholds(die.faces, options);
+      return thresholds !== null && die.naturalValue() <= thresholds.fumble;
+    });
+  }
+
+  protected decorate(text: string): string {
+    return withAnnotations(text, this.annotations, this.comment);
+  }
+
+  protected annotationsJSON(): AnnotationsJSON {
+    const json: AnnotationsJSON = {};
+    if (this.annotations.length > 0) json.annotations = this.annotations;
+    if (this.comment !== null) json.comment = this.comment;
+    return json;
+  }
+}
+
+function collectAnnotationTotals(node: RolledNode, sign: number, totals: Map<string, number>) {
+  if (node.annotations.length > 0) {
+    for (const annotation of node.annotations) {
+      totals.set(annotation, (totals.get(annotation) ?? 0) + sign * node.total());
+    }
+    return;
+  }
+
+  if (node instanceof RolledParenthetical) {
+    collectAnnotationTotals(node.node, sign, totals);
+  } else if (node instanceof RolledAdvantage) {
+    collectAnnotationTotals(node.chosen(), sign, totals);
+  } else if (node instanceof RolledUnOp && ['+', '-'].includes(node.op)) {
+    collectAnnotationTotals(node.node, node.op === '-' ? -sign : sign, totals);
+  } else if (node instanceof RolledBinOp && ['+', '-'].includes(node.op)) {
+    collectAnnotationTotals(node.left, sign, totals);
+    collectAnnotationTotals(node.right, node.op === '-' ? -sign : sign, totals);
+  }
+}
+
+// Collects the dice that count towards the total, i.e. without dropped dice and the dice of dropped set elements
+function collectKeptDice(node: RolledNode): RolledDie[] {
+  if (node instanceof RolledDie) return node.kept ? [node] : [];
+  if (node instanceof RolledDice) return node.keptDice();
+  if (node instanceof RolledSet) return node.keptElements().flatMap(collectKeptDice);
+  if (node instanceof RolledFunction) return node.args.flatMap(collectKeptDice);
+  if (node instanceof RolledAdvantage) return collectKeptDice(node.chosen());
+  if (node instanceof RolledUnOp) return collectKeptDice(node.node);
+  if (node instanceof RolledBinOp) return [...collectKeptDice(node.left), ...collectKeptDice(node.right)];
+  if (node instanceof RolledParenthetical) return collectKeptDice(node.node);
+  return [];
+}
+
+// ===================================
+// Serialized rolls
+// ===================================
+
+export type RolledNodeJSON = RolledLiteralJSON | RolledVariableJSON | RolledDieJSON | RolledDiceJSON | RolledSetJSON | RolledFunctionJSON | RolledAdvantageJSON | RolledUnOpJSON | RolledBinOpJSON | RolledParentheticalJSON;
+
+export interface AnnotationsJSON {
+  annotations?: string[];
+  comment?: string;
+}
+
+export interface RolledLiteralJSON extends AnnotationsJSON {
+  type: 'Literal';
+  total: number;
+  value: number;
+}
+
+export interface RolledVariableJSON extends AnnotationsJSON {
+  type: 'Variable';
+  total: number;
+  name: string;
+  value: number;
+}
+
+export interface RolledDieHistoryJSON {
+  value: number;
+  // The operation that resulted in the value, null for the initial roll of an original die
+  operation: string | null;
+}
+
+export interface RolledDieJSON {
+  type: 'Die';
+  total: number;
+  sides: number;
+  value: number;
+  kept: boolean;
+  history: RolledDieHistoryJSON[];
+  // The operation that dropped the die, null if the die is kept
+  droppedBy: string | null;
+}
+
+export interface RolledDiceJSON extends AnnotationsJSON {
+  type: 'Dice';
+  total: number;
+  expression: string;
+  dice: RolledDieJSON[];
 }
 
+export interface RolledSetElementJSON {
+  kept: boolean;
+  // The operation that dropped the element, null if the element is kept
+  droppedBy: string | null;
+  value: RolledNodeJSON;
+}
+
+export interface RolledSetJSON extends AnnotationsJSON {
+  type: 'Set';
+  total: number;
+  expression: string;
+  elements: RolledSetElementJSON[];
+}
+
+export interface RolledFunctionJSON extends AnnotationsJSON {
+  type: 'Function';
+  total: number;
+  name: string;
+  args: RolledNodeJSON[];
+}
+
+export interface RolledAdvantageJSON extends AnnotationsJSON {
+  type: 'Advantage';
+  total: number;
+  mode: AdvantageMode;
+  // The index of the roll that is used for the total
+  chosen: number;
+  rolls: RolledNodeJSON[];
+}
+
+export interface RolledUnOpJSON extends AnnotationsJSON {
+  type: 'UnOp';
+  total: number;
+  op: string;
+  value: RolledNodeJSON;
+}
+
+export interface RolledBinOpJSON extends AnnotationsJSON {
+  type: 'BinOp';
+  total: number;
+  op: string;
+  left: RolledNodeJSON;
+  right: RolledNodeJSON;
+}
+
+export interface RolledParentheticalJSON extends AnnotationsJSON {
+  type: 'Parenthetical';
+  total: number;
+  value: RolledNodeJSON;
+}
+
+// ===================================
+// Rolled nodes
+// ===================================
+
 export class RolledLiteral extends RolledNode {
   public readonly value: number;
 
@@ -35,46 +237,123 @@ export class RolledLiteral extends RolledNode {
   }
 
   public toString(): string {
-    return this.value.toString();
+    return this.decorate(this.value.toString());
   }
 
   public expression(): string {
     return this.toString();
   }
+
+  public toJSON(): RolledLiteralJSON {
+    return { type: 'Literal', total: this.total(), value: this.value, ...this.annotationsJSON() };
+  }
 }
 
-class RolledDie extends RolledNode {
+export class RolledVariable extends RolledNode {
+  public readonly name: string;
+  public readonly value: number;
+  // Whether toString shows the name of the variable next to its value, e.g. `str(3)` instead of `3`
+  public readonly showName: boolean;
+
+  constructor(name: string, value: number, showName: boolean = false) {
+    super();
+    this.name = name;
+    this.value = value;
+    this.showName = showName;
+  }
+
+  public total(): number {
+    return this.value;
+  }
+
+  public toString(): string {
+    return this.decorate(this.showName ? `${this.name}(${this.value})` : this.value.toString());
+  }
+
+  public expression(): string {
+    return this.decorate(this.name);
+  }
+
+  public toJSON(): RolledVariableJSON {
+    return { type: 'Variable', total: this.total(), name: this.name, value: this.value, ...this.annotationsJSON() };
+  }
+}
+
+export interface RolledDieHistory {
+  readonly value: number;
+  // The operation that resulted in the value, null for the initial roll of an original die
+  readonly operation: DiceOperation | null;
+}
+
+export class RolledDie extends RolledNode {
   public value: number;
   public kept: boolean;
   public readonly sides: number;
+  public readonly faces: DieFaces;
+  public readonly history: RolledDieHistory[];
+  public droppedBy: DiceOperation | null;
   private readonly context: RollContext;
 
-  constructor(context: RollContext, sides: number, kept: boolean = true) {
+  constructor(context: RollContext, faces: DieFaces, kept: boolean = true, addedBy: DiceOperation | null = null) {
     super();
-    if (sides === 0) {
+    if (faces.sides === 0) {
       throw new ParserError('Cannot roll a zero-sided die.');
     }
 
     this.kept = kept;
-    this.sides = sides;
+    this.faces = faces;
+    this.sides = faces.sides;
     this.context = context;
-    this.value = this.context.roll(this.sides);
+    this.history = [];
+    this.droppedBy = null;
+    this.setValue(this.rollFace(), addedBy);
   }
 
-  public drop() {
+  public drop(operation: DiceOperation | null = null) {
+    if (!this.kept) return;
+
     this.kept = false;
+    this.droppedBy = operation;
+  }
+
+  public reroll(operation: DiceOperation | null = null) {
+    this.setValue(this.rollFace(), operation);
   }
 
-  public reroll() {
-    this.value = this.context.roll(this.sides);
+  public setMin(value: number, operation: DiceOperation | null = null) {
+    if (this.value < value) this.setValue(value, operation);
   }
 
-  public setMin(value: number) {
-    this.value = Math.max(this.value, value);
+  public setMax(value: number, operation: DiceOperation | null = null) {
+    if (this.value > value) this.setValue(value, operation);
   }
 
-  public setMax(value: number) {
-    this.value = Math.min(this.value, value);
+  // The face the die landed on, i.e. its value before it was changed by mi or ma
+  public naturalValue(): number {
+    for (let i = this.history.length - 1; i >= 0; i--) {
+      const { value, operation } = this.history[i];
+      if (operation === null || !['mi', 'ma'].includes(operation.op)) return value;
+    }
+    return this.value;
+  }
+
+  // Whether the die shows its highest face, e.g. a natural 20 on a d20
+  public isMaxFace(): boolean {
+    return this.value === this.faces.max();
+  }
+
+  // Whether the die shows its lowest face, e.g. a natural 1 on a d20
+  public isMinFace(): boolean {
+    return this.value === this.faces.min();
+  }
+
+  private rollFace(): number {
+    return this.faces.face(this.context.roll(this.sides) - 1);
+  }
+
+  private setValue(value: number, operation: DiceOperation | null) {
+    this.value = value;
+    this.history.push({ value, operation });
   }
 
   public total(): number {
@@ -86,22 +365,36 @@ class RolledDie extends RolledNode {
   }
 
   public expression(): string {
-    return `1d${this.sides}`;
+    return `1d${this.faces.label}`;
+  }
+
+  public toJSON(): RolledDieJSON {
+    return {
+      type: 'Die',
+      total: this.total(),
+      sides: this.sides,
+      value: this.value,
+      kept: this.kept,
+      history: this.history.map((entry) => ({ value: entry.value, operation: entry.operation?.toString() ?? null })),
+      droppedBy: this.droppedBy?.toString() ?? null,
+    };
   }
 }
 
 export class RolledDice extends RolledNode {
   public readonly count: number;
   public readonly sides: number;
+  public readonly faces: DieFaces;
   public readonly operations: DiceOperation[];
   public readonly dice: RolledDie[];
   private readonly context: RollContext;
 
-  constructor(context: RollContext, count: number, sides: number, operations: DiceOperation[]) {
+  constructor(context: RollContext, count: number, faces: DieFaces, operations: DiceOperation[]) {
     super();
     this.context = context;
     this.count = count;
-    this.sides = sides;
+    this.faces = faces;
+    this.sides = faces.sides;
     this.operations = operations;
     this.dice = [];
 
@@ -119,21 +412,50 @@ export class RolledDice extends RolledNode {
   }
 
   public total(): number {
+    if (this.isCounting()) {
+      return this.keptDice().reduce((a, b) => a + this.score(b), 0);
+    }
     return this.keptDice().reduce((a, b) => a + b.total(), 0);
   }
 
+  // Whether the total is the number of successes minus the number of failures, instead of the sum of the dice
+  public isCounting(): boolean {
+    return this.operations.some(isCountingOperation);
+  }
+
+  // Scores a die as a success (1), a failure (-1), or neither (0), a die that is both counts as neither
+  public score(die: RolledDie): number {
+    const matches = (op: string) => this.operations.some((operation) => operation.op === op && selectorMatches(operation.selector, die.value));
+    return Number(matches('cs')) - Number(matches('cf'));
+  }
+
   public toString(): string {
     const kept = this.keptDice().map((die) => die.toString());
-    return `[${kept.join(',')}]`;
+    return this.decorate(`[${kept.join(',')}]`);
   }
 
   public expression(): string {
+    return this.decorate(this.undecoratedExpression());
+  }
+
+  public toJSON(): RolledDiceJSON {
+    return {
+      type: 'Dice',
+      total: this.total(),
+      // The annotations and comment are separate fields
+      expression: this.undecoratedExpression(),
+      dice: this.dice.map((die) => die.toJSON()),
+      ...this.annotationsJSON(),
+    };
+  }
+
+  private undecoratedExpression(): string {
     const modifiers = this.operations.map((op) => op.toString());
-    return `${this.count}d${this.sides}${modifiers.join('')}`;
+    return `${this.count}d${this.faces.label}${modifiers.join('')}`;
   }
 
-  private addNewDie(): RolledDie {
-    const die = new RolledDie(this.context, this.sides);
+  private addNewDie(operation: DiceOperation | null = null): RolledDie {
+    const die = new RolledDie(this.context, this.faces, true, operation);
     this.dice.push(die);
     return die;
   }
@@ -166,40 +488,45 @@ export class RolledDice extends RolledNode {
   private apply(operation: DiceOperation): void {
     // prettier-ignore
     switch (operation.op) {
-      case 'mi': return this.applyMin(operation.selector);
-      case 'ma': return this.applyMax(operation.selector);
-      case 'rr': return this.applyReroll(operation.selector);
-      case 'ro': return this.applyRerollOnce(operation.selector);
-      case 'ra': return this.applyExplodeOnce(operation.selector);
-      case 'e':  return this.applyExplode(operation.selector);
-      case 'k':  return this.applyKeep(operation.selector);
-      case 'p':  return this.applyDrop(operation.selector);
+      case 'mi': return this.applyMin(operation);
+      case 'ma': return this.applyMax(operation);
+      case 'rr': return this.applyReroll(operation);
+      case 'ro': return this.applyRerollOnce(operation);
+      case 'ra': return this.applyExplodeOnce(operation);
+      case 'e':  return this.applyExplode(operation);
+      case 'k':  return this.applyKeep(operation);
+      case 'p':  return this.applyDrop(operation);
+      case 'cs': return this.applyCount(operation);
+      case 'cf': return this.applyCount(operation);
     }
 
     throw new ModifierError(`The operator '${operation.op}' is not supported.`);
   }
 
-  private applyMin(selector: Selector): void {
+  private applyMin(operation: DiceOperation): void {
+    const selector = operation.selector;
     if (selector.type !== null) {
       throw new ModifierError(`The operator mi expects no category, but '${selector.type}' was given.`);
     }
 
     for (const die of this.dice) {
-      die.setMin(selector.value);
+      die.setMin(selector.value, operation);
     }
   }
 
-  private applyMax(selector: Selector): void {
+  private applyMax(operation: DiceOperation): void {
+    const selector = operation.selector;
     if (selector.type !== null) {
       throw new ModifierError(`The operator ma expects no category, but '${selector.type}' was given.`);
     }
 
     for (const die of this.dice) {
-      die.setMax(selector.value);
+      die.setMax(selector.value, operation);
     }
   }
 
-  private applyReroll(selector: Selector): void {
+  private applyReroll(operation: DiceOperation): void {
+    const selector = operation.selector;
     if (selector.type === 'h') {
       throw new ModifierError(`The operator rr expects does not support the h selector.`);
     }
@@ -210,32 +537,41 @@ export class RolledDice extends RolledNode {
 
     for (const die of this.dice) {
       while (selectorMatches(selector, die.value)) {
-        die.reroll();
+        die.reroll(operation);
       }
     }
   }
 
-  private applyRerollOnce(selector: Selector): void {
+  private applyRerollOnce(operation: DiceOperation): void {
+    const selector = operation.selector;
     const dice = this.getMatchedDice(selector);
     for (const die of dice) {
-      die.reroll();
+      die.reroll(operation);
     }
   }
 
-  private applyExplodeOnce(selector: Selector): void {
+  private applyExplodeOnce(operation: DiceOperation): void {
+    const selector = operation.selector;
     const dice = this.getMatchedDice(selector, 1);
     if (dice.length > 0) {
-      this.addNewDie();
+      this.addNewDie(operation);
     }
   }
 
-  private applyExplode(selector: Selector): void {
+  private applyExplode(operation: DiceOperation): void {
+    const selector = operation.selector;
     let toExplode = new Set(this.getMatchedDice(selector));
     const alreadyExploded = new Set<RolledDie>();
+    let depth = 0;
 
     while (toExplode.size > 0) {
+      depth += 1;
+      if (depth > this.context.limits.maxExplodeDepth) {
+        throw new ExplodeDepthError(`Dice exploded more than ${this.context.limits.maxExplodeDepth} times in a row!`, this.context.node);
+      }
+
       for (const die of toExplode) {
-        this.addNewDie();
+        this.addNewDie(operation);
         alreadyExploded.add(die);
       }
 
@@ -246,7 +582,16 @@ export class RolledDice extends RolledNode {
     }
   }
 
-  private applyKeep(selector: Selector): void {
+  private applyCount(operation: DiceOperation): void {
+    // The dice are only counted when calculating the total, after all other operations are applied
+    const selector = operation.selector;
+    if (selector.type === 'h' || selector.type === 'l') {
+      throw new ModifierError(`The operator ${operation.op} does not support the ${selector.type} selector.`);
+    }
+  }
+
+  private applyKeep(operation: DiceOperation): void {
+    const selector = operation.selector;
     const keep = new Set(this.getMatchedDice(selector));
     const drop = new Set(this.keptDice());
     for (const die of keep) {
@@ -254,18 +599,180 @@ export class RolledDice extends RolledNode {
     }
 
     for (const die of drop) {
-      die.drop();
+      die.drop(operation);
     }
   }
 
-  private applyDrop(selector: Selector): void {
+  private applyDrop(operation: DiceOperation): void {
+    const selector = operation.selector;
     const drop = this.getMatchedDice(selector);
     for (const die of drop) {
-      die.drop();
+      die.drop(operation);
     }
   }
 }
 
+export class RolledSet extends RolledNode {
+  public readonly elements: RolledNode[];
+  public readonly operations: DiceOperation[];
+  public readonly kept: boolean[];
+  // The operation that dropped each element, null if the element is kept
+  public readonly droppedBy: (DiceOperation | null)[];
+
+  constructor(elements: RolledNode[], operations: DiceOperation[]) {
+    super();
+    this.elements = elements;
+    this.operations = operations;
+    this.kept = elements.map(() => true);
+    this.droppedBy = elements.map(() => null);
+
+    for (const operation of this.operations) {
+      this.apply(operation);
+    }
+  }
+
+  public keptElements(): RolledNode[] {
+    return this.elements.filter((_, index) => this.kept[index]);
+  }
+
+  public total(): number {
+    return this.keptElements().reduce((a, b) => a + b.total(), 0);
+  }
+
+  public toString(): string {
+    const kept = this.keptElements().map((element) => element.toString());
+    return this.decorate(`(${kept.join(', ')})`);
+  }
+
+  public expression(): string {
+    return this.decorate(this.undecoratedExpression());
+  }
+
+  public toJSON(): RolledSetJSON {
+    return {
+      type: 'Set',
+      total: this.total(),
+      // The annotations and comment are separate fields
+      expression: this.undecoratedExpression(),
+      elements: this.elements.map((element, index) => ({
+        kept: this.kept[index],
+        droppedBy: this.droppedBy[index]?.toString() ?? null,
+        value: element.toJSON(),
+      })),
+      ...this.annotationsJSON(),
+    };
+  }
+
+  private undecoratedExpression(): string {
+    const elements = this.elements.map((element) => element.expression());
+    const modifiers = this.operations.map((op) => op.toString()).join('');
+    return formatSet(elements, modifiers);
+  }
+
+  private drop(index: number, operation: DiceOperation) {
+    if (!this.kept[index]) return;
+
+    this.kept[index] = false;
+    this.droppedBy[index] = operation;
+  }
+
+  // Returns the indices of the elements matched by the selector, compared by their totals
+  private getMatchedElements(selector: Selector): number[] {
+    const indices = this.elements.map((_, index) => index);
+    if (selector.type === 'h' || selector.type === 'l') {
+      const direction = selector.type === 'h' ? -1 : 1;
+      const kept = indices.filter((index) => this.kept[index]);
+      return sorted(kept, (a, b) => direction * (this.elements[a].total() - this.elements[b].total())).slice(0, selector.value);
+    }
+
+    return indices.filter((index) => selectorMatches(selector, this.elements[index].total()));
+  }
+
+  private apply(operation: DiceOperation): void {
+    if (operation.op !== 'k' && operation.op !== 'p') {
+      throw new ModifierError(`The operator '${operation.op}' is not supported for sets.`);
+    }
+
+    const matched = new Set(this.getMatchedElements(operation.selector));
+
+    for (let index = 0; index < this.elements.length; index++) {
+      // Keeping drops the unmatched elements, dropping drops the matched elements
+      if (matched.has(index) !== (operation.op === 'k')) {
+        this.drop(index, operation);
+      }
+    }
+  }
+}
+
+export class RolledFunction extends RolledNode {
+  public readonly name: string;
+  public readonly args: RolledNode[];
+
+  constructor(name: string, args: RolledNode[]) {
+    super();
+    this.name = name;
+    this.args = args;
+  }
+
+  public total(): number {
+    return callFunction(this.name, this.args.map((arg) => arg.total()));
+  }
+
+  public toString(): string {
+    return this.decorate(`${this.name}(${this.args.map((arg) => arg.toString()).join(', ')})`);
+  }
+
+  public expression(): string {
+    return this.decorate(`${this.name}(${this.args.map((arg) => arg.expression()).join(', ')})`);
+  }
+
+  public toJSON(): RolledFunctionJSON {
+    return { type: 'Function', total: this.total(), name: this.name, args: this.args.map((arg) => arg.toJSON()), ...this.annotationsJSON() };
+  }
+}
+
+export class RolledAdvantage extends RolledNode {
+  public readonly mode: AdvantageMode;
+  public readonly rolls: RolledNode[];
+  // The index of the roll with the highest total for advantage, or the lowest total for disadvantage
+  public readonly index: number;
+
+  constructor(mode: AdvantageMode, rolls: RolledNode[]) {
+    super();
+    this.mode = mode;
+    this.rolls = rolls;
+
+    const direction = mode === 'advantage' ? 1 : -1;
+    this.index = 0;
+    for (let i = 1; i < rolls.length; i++) {
+      if (direction * (rolls[i].total() - rolls[this.index].total()) > 0) {
+        this.index = i;
+      }
+    }
+  }
+
+  public chosen(): RolledNode {
+    return this.rolls[this.index];
+  }
+
+  public total(): number {
+    return this.chosen().total();
+  }
+
+  public toString(): string {
+    const name = this.mode === 'advantage' ? 'adv' : 'dis';
+    return this.decorate(`${name}(${this.rolls.map((roll) => roll.toString()).join(', ')})`);
+  }
+
+  public expression(): string {
+    return this.decorate(formatAdvantage(this.mode, this.chosen().expression(), this.rolls.length));
+  }
+
+  public toJSON(): RolledAdvantageJSON {
+    return { type: 'Advantage', total: this.total(), mode: this.mode, chosen: this.index, rolls: this.rolls.map((roll) => roll.toJSON()), ...this.annotationsJSON() };
+  }
+}
+
 export class RolledUnOp extends RolledNode {
   public readonly op: string;
   public readonly node: RolledNode;
@@ -287,11 +794,15 @@ export class RolledUnOp extends RolledNode {
   }
 
   public toString(): string {
-    return `${this.op}${this.node.toString()}`;
+    return this.decorate(`${this.op}${this.node.toString()}`);
   }
 
   public expression(): string {
-    return `${this.op}${this.node.expression()}`;
+    return this.decorate(`${this.op}${this.node.expression()}`);
+  }
+
+  public toJSON(): RolledUnOpJSON {
+    return { type: 'UnOp', total: this.total(), op: this.op, value: this.node.toJSON(), ...this.annotationsJSON() };
   }
 }
 
@@ -317,18 +828,38 @@ export class RolledBinOp extends RolledNode {
         return this.left.total() * this.right.total();
       case '/':
         return this.left.total() / this.right.total();
+      // Integer division rounds down, also for negative numbers
+      case '//':
+        return Math.floor(this.left.total() / this.right.total());
       case '%':
         return this.left.total() % this.right.total();
+      // Comparisons evaluate to 1 when they hold and 0 otherwise
+      case '<':
+        return Number(this.left.total() < this.right.total());
+      case '>':
+        return Number(this.left.total() > this.right.total());
+      case '<=':
+        return Number(this.left.total() <= this.right.total());
+      case '>=':
+        return Number(this.left.total() >= this.right.total());
+      case '==':
+        return Number(this.left.total() === this.right.total());
+      case '!=':
+        return Number(this.left.total() !== this.right.total());
     }
     throw new ParserError(`Invalid binary operator '${this.op}'.`);
   }
 
   public toString(): string {
-    return `${this.left.toString()} ${this.op} ${this.right.toString()}`;
+    return this.decorate(`${this.left.toString()} ${this.op} ${this.right.toString()}`);
   }
 
   public expression(): string {
-    return `${this.left.expression()} ${this.op} ${this.right.expression()}`;
+    return this.decorate(`${this.left.expression()} ${this.op} ${this.right.expression()}`);
+  }
+
+  public toJSON(): RolledBinOpJSON {
+    return { type: 'BinOp', total: this.total(), op: this.op, left: this.left.toJSON(), right: this.right.toJSON(), ...this.annotationsJSON() };
   }
 }
 
@@ -345,11 +876,15 @@ export class RolledParenthetical extends RolledNode {
   }
 
   public toString(): string {
-    return `(${this.node.toString()})`;
+    return this.decorate(`(${this.node.toString()})`);
   }
 
   public expression(): string {
-    return `(${this.node.expression()})`;
+    return this.decorate(`(${this.node.expression()})`);
+  }
+
+  public toJSON(): RolledParentheticalJSON {
+    return { type: 'Parenthetical', total: this.total(), value: this.node.toJSON(), ...this.annotationsJSON() };
   }
 }
 
@@ -359,37 +894,115 @@ export class RolledParenthetical extends RolledNode {
 
 class RollContext {
   public rolls: number;
-  public readonly max: number;
-
-  constructor(max: number) {
-    this.max = max;
+  public readonly limits: Required<Limits>;
+  public random: RandomSource;
+  // The dice that are being rolled, reported when a limit is exceeded
+  public node: ASTDice | null = null;
+
+  constructor(limits: Required<Limits>, random: RandomSource) {
+    this.limits = limits;
+    this.random = random;
     this.reset();
   }
 
   public reset() {
     this.rolls = 0;
+    this.node = null;
   }
 
   public roll(sides: number): number {
-    if (this.rolls > this.max) {
-      throw new TooManyRollsError('Rolled too many times!');
+    if (this.rolls >= this.limits.maxRolls) {
+      throw new TooManyRollsError('Rolled too many times!', this.node);
     }
 
     this.rolls += 1;
-    return Math.floor(Math.random() * sides) + 1;
+    return Math.floor(this.random.next() * sides) + 1;
   }
 }
 
+export interface RollerOptions {
+  // The source of randomness, defaults to Math.random. A SeededRandom source seeds every roll with a seed drawn from it
+  random?: RandomSource;
+  // Seeds a SeededRandom source, taking precedence over `random`, and every roll after the first with a seed drawn from it
+  seed?: number;
+  // Values of the variables in the expression
+  variables?: Variables;
+  // Shows the names of variables in the rolled string, e.g. `[14] + str(3)` instead of `[14] + 3`
+  showVariableNames?: boolean;
+  // Rolls the whole expression with advantage or disadvantage
+  advantage?: AdvantageOptions;
+  // Limits on the number of rolls, dice, sides and explosions
+  limits?: Limits;
+  // Whether the limits apply to every roll separately, or to all rolls made by the roller together, defaults to 'roll'
+  limitScope?: 'roll' | 'session';
+}
+
 export class Roller {
   private readonly context: RollContext;
+  private readonly limitScope: 'roll' | 'session';
+  private readonly variables: Variables;
+  private readonly showVariableNames: boolean;
+  private readonly advantage: AdvantageOptions | null;
+  // The seed of the next roll, if the roller is seeded
+  private seed: number | null = null;
+  // The seeded source the seed of every roll is drawn from, if one is given
+  private seeds: SeededRandom | null = null;
+
+  constructor(options: RollerOptions = {}) {
+    let random: RandomSource = options.random ?? new MathRandom();
+    if (options.seed !== undefined) {
+      random = new SeededRandom(options.seed);
+      this.seed = random.seed;
+    } else if (random instanceof SeededRandom) {
+      this.seeds = random;
+    }
 
-  constructor() {
-    this.context = new RollContext(1000);
+    this.context = new RollContext(resolveLimits(options.limits), random);
+    this.variables = options.variables ?? {};
+    this.showVariableNames = options.showVariableNames ?? false;
+    this.advantage = options.advantage ?? null;
+    this.limitScope = options.limitScope ?? 'roll';
   }
 
   public roll(ast: ASTNode): RolledNode {
+    if (this.limitScope === 'roll') {
+      this.context.reset();
+    }
+
+    // Every roll gets its own seed, so that it can be replayed without the rolls made before it
+    const seed = this.seeds !== null ? drawSeed(this.seeds) : this.seed;
+    if (seed !== null) {
+      this.context.random = new SeededRandom(seed);
+    }
+
+    const before = this.context.rolls;
+    try {
+      const node = this.rollNode(this.advantage === null ? ast : withAdvantage(ast, this.advantage));
+      node.seed = seed ?? this.context.random.seed;
+      node.draws = this.context.rolls - before;
+      return node;
+    } finally {
+      // The seed of the next roll continues the sequence of this roll
+      if (this.seed !== null) {
+        this.seed = drawSeed(this.context.random);
+      }
+    }
+  }
+
+  private rollNode(ast: ASTNode): RolledNode {
+    const node = this.rollInnerNode(ast);
+    node.annotations = ast.annotations;
+    node.comment = ast.comment;
+    return node;
+  }
+
+  private rollInnerNode(ast: ASTNode): RolledNode {
     if (ast instanceof ASTLiteral) return this.rollLiteral(ast);
+    if (ast instanceof ASTVariable) return this.rollVariable(ast);
     if (ast instanceof ASTDice) return this.rollDice(ast);
+    if (ast instanceof ASTSet) return this.rollSet(ast);
+    if (ast instanceof ASTFunction) return this.rollFunction(ast);
+    if (ast instanceof ASTAdvantage) return this.rollAdvantage(ast);
     if (ast instanceof ASTUnOp) return this.rollUnOp(ast);
     if (ast instanceof ASTBinOp) return this.rollBinOp(ast);
     if (ast instanceof ASTParenthetical) return this.rollParenthetical(ast);
@@ -401,23 +1014,54 @@ export class Roller {
     return new RolledLiteral(ast.value);
   }
 
+  private rollVariable(ast: ASTVariable): RolledVariable {
+    return new RolledVariable(ast.name, resolveVariable(this.variables, ast.name), this.showVariableNames);
+  }
+
   private rollDice(ast: ASTDice): RolledDice {
-    return new RolledDice(this.context, ast.count, ast.sides, ast.operations);
+    const { maxDice, maxSides } = this.context.limits;
+    if (ast.count > maxDice) {
+      throw new TooManyDiceError(`Cannot roll ${ast.count} dice at once, at most ${maxDice} dice are allowed.`, ast);
+    }
+    if (ast.sides > maxSides) {
+      throw new TooManySidesError(`Cannot roll dice with ${ast.sides} sides, at most ${maxSides} sides are allowed.`, ast);
+    }
+
+    this.context.node = ast;
+    return new RolledDice(this.context, ast.count, ast.faces, ast.operations);
+  }
+
+  private rollSet(ast: ASTSet): RolledSet {
+    const elements = ast.elements.map((element) => this.rollNode(element));
+    return new RolledSet(elements, ast.operations);
+  }
+
+  private rollFunction(ast: ASTFunction): RolledFunction {
+    const args = ast.args.map((arg) => this.rollNode(arg));
+    return new RolledFunction(ast.name, args);
+  }
+
+  private rollAdvantage(ast: ASTAdvantage): RolledAdvantage {
+    const rolls: RolledNode[] = [];
+    for (let i = 0; i < ast.count; i++) {
+      rolls.push(this.rollNode(ast.value));
+    }
+    return new RolledAdvantage(ast.mode, rolls);
   }
 
   private rollUnOp(ast: ASTUnOp): RolledUnOp {
-    const node = this.roll(ast.value);
+    const node = this.rollNode(ast.value);
     return new RolledUnOp(ast.op, node);
   }
 
   private rollBinOp(ast: ASTBinOp): RolledBinOp {
-    const left = this.roll(ast.left);
-    const right = this.roll(ast.right);
+    const left = this.rollNode(ast.left);
+    const right = this.rollNode(ast.right);
     return new RolledBinOp(ast.op, left, right);
   }
 
   private rollParenthetical(ast: ASTParenthetical) {
-    const node = this.roll(ast.value);
+    const node = this.rollNode(ast.value);
     return new RolledParenthetical(node);
   }
 }
@@ -0,0 +1,169 @@
+import { ParserError } from './errors';
+import { formatSet } from './parser';
+import { RolledAdvantage, RolledBinOp, RolledDice, RolledDie, RolledFunction, RolledLiteral, RolledNode, RolledParenthetical, RolledSet, RolledUnOp, RolledVariable } from './roll';
+
+export interface StringifierOptions {
+  // Custom styling for dice showing their highest face, replacing the default styling
+  maxFace?: (text: string, die: RolledDie) => string;
+  // Custom styling for dice showing their lowest face, replacing the default styling
+  minFace?: (text: string, die: RolledDie) => string;
+}
+
+/**
+ * Converts rolled results to a string of the form `1d20 (20) + 5 = 25`, followed by the comment of the expression if any.
+ * Subclasses can change the styling of any part of the result by overriding the corresponding method.
+ */
+export abstract class Stringifier {
+  protected readonly options: StringifierOptions;
+
+  constructor(options: StringifierOptions = {}) {
+    this.options = options;
+  }
+
+  public stringify(node: RolledNode): string {
+    const text = `${this.stringifyNode(node)} = ${this.styleTotal(this.text(node.total().toString()))}`;
+    return node.comment === null ? text : `${text} ${this.text(`# ${node.comment}`)}`;
+  }
+
+  protected stringifyNode(node: RolledNode): string {
+    const annotations = node.annotations.map((annotation) => ` ${this.text(`[${annotation}]`)}`);
+    return `${this.stringifyInnerNode(node)}${annotations.join('')}`;
+  }
+
+  protected stringifyInnerNode(node: RolledNode): string {
+    if (node instanceof RolledLiteral) return this.stringifyLiteral(node);
+    if (node instanceof RolledVariable) return this.stringifyVariable(node);
+    if (node instanceof RolledDice) return this.stringifyDice(node);
+    if (node instanceof RolledSet) return this.stringifySet(node);
+    if (node instanceof RolledFunction) return this.stringifyFunction(node);
+    if (node instanceof RolledAdvantage) return this.stringifyAdvantage(node);
+    if (node instanceof RolledUnOp) return this.stringifyUnOp(node);
+    if (node instanceof RolledBinOp) return this.stringifyBinOp(node);
+    if (node instanceof RolledParenthetical) return this.stringifyParenthetical(node);
+
+    throw new ParserError(`Unsupported rolled node '${node.constructor.name}'`);
+  }
+
+  protected stringifyLiteral(node: RolledLiteral): string {
+    return this.text(node.value.toString());
+  }
+
+  protected stringifyVariable(node: RolledVariable): string {
+    return `${this.text(node.name)} (${this.text(node.value.toString())})`;
+  }
+
+  protected stringifyDice(node: RolledDice): string {
+    const dice = node.dice.map((die) => this.stringifyDie(die));
+    const expression = `${node.count}d${node.faces.label}${node.operations.map((op) => op.toString()).join('')}`;
+    return `${this.text(expression)} (${dice.join(', ')})`;
+  }
+
+  protected stringifyDie(die: RolledDie): string {
+    let text = this.text(die.value.toString());
+
+    if (die.isMaxFace()) {
+      text = this.options.maxFace ? this.options.maxFace(text, die) : this.styleMaxFace(text);
+    } else if (die.isMinFace()) {
+      text = this.options.minFace ? this.options.minFace(text, die) : this.styleMinFace(text);
+    }
+
+    return die.kept ? text : this.styleDropped(text);
+  }
+
+  protected stringifySet(node: RolledSet): string {
+    const elements = node.elements.map((element, index) => {
+      const text = this.stringifyNode(element);
+      return node.kept[index] ? text : this.styleDropped(text);
+    });
+    const modifiers = node.operations.map((op) => op.toString()).join('');
+    return formatSet(elements, this.text(modifiers));
+  }
+
+  protected stringifyFunction(node: RolledFunction): string {
+    const args = node.args.map((arg) => this.stringifyNode(arg));
+    return `${this.text(node.name)}(${args.join(', ')})`;
+  }
+
+  protected stringifyAdvantage(node: RolledAdvantage): string {
+    const rolls = node.rolls.map((roll, index) => {
+      const text = this.stringifyNode(roll);
+      return index === node.index ? text : this.styleDropped(text);
+    });
+    return `${this.text(node.mode === 'advantage' ? 'adv' : 'dis')}(${rolls.join(', ')})`;
+  }
+
+  protected stringifyUnOp(node: RolledUnOp): string {
+    return `${this.text(node.op)}${this.stringifyNode(node.node)}`;
+  }
+
+  protected stringifyBinOp(node: RolledBinOp): string {
+    return `${this.stringifyNode(node.left)} ${this.text(node.op)} ${this.stringifyNode(node.right)}`;
+  }
+
+  protected stringifyParenthetical(node: RolledParenthetical): string {
+    return `(${this.stringifyNode(node.node)})`;
+  }
+
+  // Converts raw text, such as expressions and operators, to the output format
+  protected text(text: string): string {
+    return text;
+  }
+
+  protected styleTotal(text: string): string {
+    return text;
+  }
+
+  protected styleMaxFace(text: string): string {
+    return text;
+  }
+
+  protected styleMinFace(text: string): string {
+    return text;
+  }
+
+  protected styleDropped(text: string): string {
+    return text;
+  }
+}
+
+export class PlainStringifier extends Stringifier {}
+
+export class MarkdownStringifier extends Stringifier {
+  protected styleTotal(text: string): string {
+    return `\`${text}\``;
+  }
+
+  protected styleMaxFace(text: string): string {
+    return `**${text}**`;
+  }
+
+  protected styleMinFace(text: string): string {
+    return `**${text}**`;
+  }
+
+  protected styleDropped(text: string): string {
+    return `~~${text}~~`;
+  }
+}
+
+export class HtmlStringifier extends Stringifier {
+  protected text(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  protected styleTotal(text: string): string {
+    return `<code>${text}</code>`;
+  }
+
+  protected styleMaxFace(text: string): string {
+    return `<strong>${text}</strong>`;
+  }
+
+  protected styleMinFace(text: string): string {
+    return `<strong>${text}</strong>`;
+  }
+
+  protected styleDropped(text: string): string {
+    return `<del>${text}</del>`;
+  }
+}
@@ -0,0 +1,105 @@
+import { ParserError } from './errors';
+import { AdvantageOptions, ASTAdvantage, ASTBinOp, ASTDice, ASTFunction, ASTLiteral, ASTNode, ASTParenthetical, ASTSet, ASTUnOp, ASTVariable, DiceOperation, Selector } from './parser';
+
+// ===================================
+// Transforms
+// ===================================
+
+/**
+ * Rebuilds an expression from the bottom up, calling replace for every node after its children have been rebuilt.
+ * The returned tree is a new tree, so the original expression is left untouched.
+ */
+export function transformAST(node: ASTNode, replace: (node: ASTNode) => ASTNode): ASTNode {
+  return replace(withMetadata(rebuildNode(node, replace), node));
+}
+
+function rebuildNode(node: ASTNode, replace: (node: ASTNode) => ASTNode): ASTNode {
+  const transform = (child: ASTNode) => transformAST(child, replace);
+
+  if (node instanceof ASTLiteral) return new ASTLiteral(node.value);
+  if (node instanceof ASTVariable) return new ASTVariable(node.name);
+  if (node instanceof ASTDice) return new ASTDice(node.count, node.faces, node.operations);
+  if (node instanceof ASTSet) return new ASTSet(node.elements.map(transform), node.operations);
+  if (node instanceof ASTFunction) return new ASTFunction(node.name, node.args.map(transform));
+  if (node instanceof ASTAdvantage) return new ASTAdvantage(node.mode, transform(node.value), node.count);
+  if (node instanceof ASTUnOp) return new ASTUnOp(node.op, transform(node.value));
+  if (node instanceof ASTBinOp) return new ASTBinOp(node.op, transform(node.left), transform(node.right));
+  if (node instanceof ASTParenthetical) return new ASTParenthetical(transform(node.value));
+
+  throw new ParserError(`Unsupported AST node '${node.constructor.name}'`);
+}
+
+// Copies the annotations and comment of the source node to the target node
+function withMetadata<T extends ASTNode>(target: T, source: ASTNode): T {
+  target.annotations = [...source.annotations];
+  target.comment = source.comment;
+  return target;
+}
+
+// Rolls a whole expression with advantage or disadvantage, e.g. `1d20 + 5` becomes `adv(1d20 + 5)`
+export function withAdvantage(node: ASTNode, options: AdvantageOptions): ASTAdvantage {
+  const value = transformAST(node, (node) => node);
+  const advantage = new ASTAdvantage(options.mode, value, options.count);
+
+  // The comment stays at the end of the expression
+  advantage.comment = value.comment;
+  value.comment = null;
+  return advantage;
+}
+
+// ===================================
+// Critical hits
+// ===================================
+
+/**
+ * Rules to calculate the damage of a critical hit:
+ * - double-dice: rolls twice the number of dice, but adds the modifiers once, e.g. `2d6 + 4` becomes `4d6 + 4`
+ * - double-total: doubles the total of the damage, e.g. `2d6 + 4` becomes `2 * (2d6 + 4)`
+ * - max-dice: the dice show their highest face and are rolled once more, e.g. `2d6 + 4` becomes `(2d6mi6 + 2d6) + 4`
+ */
+export type CriticalRule = 'double-dice' | 'double-total' | 'max-dice';
+
+// Converts a damage expression to the damage expression of a critical hit
+export function criticalDamage(node: ASTNode, rule: CriticalRule = 'double-dice'): ASTNode {
+  if (rule === 'double-total') {
+    const damage = transformAST(node, (node) => node);
+    const doubled = new ASTBinOp('*', new ASTLiteral(2), new ASTParenthetical(damage));
+
+    // The comment stays at the end of the expression
+    doubled.comment = damage.comment;
+    damage.comment = null;
+    return doubled;
+  }
+
+  if (rule === 'double-dice') {
+    return transformAST(node, (node) => (node instanceof ASTDice ? withMetadata(doubleDice(node), node) : node));
+  }
+
+  if (rule === 'max-dice') {
+    return transformAST(node, (node) => (node instanceof ASTDice ? withMetadata(maxDice(node), node) : node));
+  }
+
+  throw new ParserError(`Unsupported critical rule '${rule}'`);
+}
+
+function doubleDice(dice: ASTDice): ASTDice {
+  // Keeping or dropping the highest or lowest dice applies to twice the number of dice as well
+  const operations = dice.operations.map((operation) => {
+    const { op, selector } = operation;
+    if (['k', 'p'].includes(op) && (selector.type === 'h' || selector.type === 'l')) {
+      return new DiceOperation(op, new Selector(selector.type, selector.value * 2));
+    }
+    return operation;
+  });
+
+  return new ASTDice(dice.count * 2, dice.faces, operations);
+}
+
+function maxDice(dice: ASTDice): ASTNode {
+  // The maximized dice are not rerolled and do not explode, but are still limited, kept, dropped and counted
+  const kept = dice.operations.filter((operation) => !['rr', 'ro', 'ra', 'e'].includes(operation.op));
+  const maximized = new ASTDice(dice.count, dice.faces, [new DiceOperation('mi', new Selector(null, dice.faces.max())), ...kept]);
+  const rolled = new ASTDice(dice.count, dice.faces, dice.operations);
+
+  return new ASTParenthetical(new ASTBinOp('+', maximized, rolled));
+}
@@ -16,35 +16,209 @@ export function range(min: number, max: number): number[] {
   return array;
 }
 
-export function cartesianProduct<T>(arrays: T[][]): T[][] {
-  if (arrays.length === 1) {
-    return arrays[0].map((array) => [array]);
+// Convolutions that take more multiplications than this are calculated with the fast Fourier transform. Direct
+// convolution keeps the relative accuracy of tiny probabilities, e.g. for pools up to 100d20, whereas the errors of the
+// transform are absolute, about 1e-16 of the largest probability.
+const DirectConvolutionLimit = 1_000_000;
+
+export function convolve(a: readonly number[], b: readonly number[]): number[] {
+  // Calculate the convolution of two vectors
+  if (a.length * b.length > DirectConvolutionLimit) {
+    return fftConvolve(a, b);
   }
 
-  const result: T[][] = [];
-  const subarrays = cartesianProduct(arrays.slice(1));
+  const length = a.length + b.length - 1;
+  const convolution = Array(length).fill(0);
 
-  for (const value of arrays[0]) {
-    for (const subarray of subarrays) {
-      result.push([value, ...subarray]);
+  for (let i = 0; i < a.length; i++) {
+    for (let j = 0; j < b.length; j++) {
+      convolution[i + j] += a[i] * b[j];
     }
   }
 
+  return convolution;
+}
+
+export function convolvePower(a: readonly number[], count: number): number[] {
+  // Calculate the convolution of count copies of a vector by repeated squaring
+  let result = [1];
+  let base = [...a];
+  while (count > 0) {
+    if (count % 2 === 1) result = convolve(result, base);
+    count = Math.floor(count / 2);
+    if (count > 0) base = convolve(base, base);
+  }
   return result;
 }
 
-export function convolve(a: readonly number[], b: readonly number[]): number[] {
-  // Calculate the convolution of two vectors
+function fftConvolve(a: readonly number[], b: readonly number[]): number[] {
+  // The convolution is the inverse transform of the product of the transforms, padded to a power of two
   const length = a.length + b.length - 1;
-  const convolution = Array(length).fill(0);
+  let n = 1;
+  while (n < length) n *= 2;
+
+  const ar = new Float64Array(n);
+  const ai = new Float64Array(n);
+  const br = new Float64Array(n);
+  const bi = new Float64Array(n);
+  ar.set(a);
+  br.set(b);
 
-  for (let n = 0; n < convolution.length; n++) {
-    for (let m = 0; m < b.length; m++) {
-      if (0 <= n - m && n - m < a.length) {
-        convolution[n] += a[n - m] * b[m];
+  fft(ar, ai, false);
+  fft(br, bi, false);
+  for (let i = 0; i < n; i++) {
+    const re = ar[i] * br[i] - ai[i] * bi[i];
+    ai[i] = ar[i] * bi[i] + ai[i] * br[i];
+    ar[i] = re;
+  }
+  fft(ar, ai, true);
+
+  return Array.from(ar.subarray(0, length), (value) => value / n);
+}
+
+function fft(re: Float64Array, im: Float64Array, inverse: boolean): void {
+  // In-place iterative radix-2 fast Fourier transform, the inverse transform is not divided by the length
+  const n = re.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  // The twiddle factors are calculated once, as accumulating them by multiplication loses precision
+  const sign = inverse ? 1 : -1;
+  const cos = new Float64Array(n / 2);
+  const sin = new Float64Array(n / 2);
+  for (let k = 0; k < n / 2; k++) {
+    cos[k] = Math.cos((2 * Math.PI * k) / n);
+    sin[k] = sign * Math.sin((2 * Math.PI * k) / n);
+  }
+
+  for (let size = 2; size <= n; size *= 2) {
+    const half = size / 2;
+    const step = n / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const i = start + k;
+        const j = i + half;
+        const wr = cos[k * step];
+        const wi = sin[k * step];
+        const vr = re[j] * wr - im[j] * wi;
+        const vi = re[j] * wi + im[j] * wr;
+        re[j] = re[i] - vr;
+        im[j] = im[i] - vi;
+        re[i] += vr;
+        im[i] += vi;
       }
     }
   }
+}
 
-  return convolution;
+export function binomial(n: number, k: number): number {
+  // Calculate the binomial coefficient n choose k
+  if (k < 0 || k > n) return 0;
+
+  k = Math.min(k, n - k);
+  let result = 1;
+  for (let i = 1; i <= k; i++) {
+    result = (result * (n - k + i)) / i;
+  }
+  return result;
+}
+
+export function bigBinomial(n: number, k: number): bigint {
+  // Calculate the binomial coefficient n choose k exactly
+  if (k < 0 || k > n) return 0n;
+
+  k = Math.min(k, n - k);
+  let result = 1n;
+  for (let i = 1; i <= k; i++) {
+    result = (result * BigInt(n - k + i)) / BigInt(i);
+  }
+  return result;
+}
+
+export function normalQuantile(p: number): number {
+  // Calculate the inverse of the standard normal CDF with Acklam's rational approximation, accurate to about 1e-9
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+export function logGamma(x: number): number {
+  // Calculate the logarithm of the gamma function with the Lanczos approximation
+  const g = 7;
+  const coefficients = [0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7];
+
+  if (x < 0.5) {
+    // Reflection formula, gamma(x) * gamma(1 - x) = pi / sin(pi * x)
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+
+  x -= 1;
+  let series = coefficients[0];
+  for (let i = 1; i < g + 2; i++) {
+    series += coefficients[i] / (x + i);
+  }
+  const t = x + g + 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(series);
+}
+
+export function regularizedGammaQ(a: number, x: number): number {
+  // Calculate the upper regularized incomplete gamma function Q(a, x) = 1 - P(a, x)
+  if (x <= 0) return 1;
+  const prefix = Math.exp(-x + a * Math.log(x) - logGamma(a));
+
+  if (x < a + 1) {
+    // The series of P(a, x) converges quickly for small x
+    let term = 1 / a;
+    let series = term;
+    for (let n = 1; n < 1000 && Math.abs(term) > Math.abs(series) * 1e-15; n++) {
+      term *= x / (a + n);
+      series += term;
+    }
+    return Math.max(0, 1 - prefix * series);
+  }
+
+  // The continued fraction of Q(a, x) converges quickly for large x, evaluated with Lentz's method
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let fraction = d;
+  for (let i = 1; i < 1000; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    fraction *= delta;
+    if (Math.abs(delta - 1) < 1e-15) break;
+  }
+  return prefix * fraction;
 }
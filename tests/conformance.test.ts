@@ -0,0 +1,69 @@
+import { expect, test } from 'vitest';
+
+import * as d20 from '../src';
+
+// ==========================================
+// Test that rolls and distributions agree
+// ==========================================
+
+const expressions = [
+  // Arithmetic
+  '1d20 + 5',
+  '2d6 * 3 - 1d4',
+  '-1d8 + 2',
+  '1d20 / 4',
+  '1d20 // 4',
+  '-1d7 // 2',
+  '3d6 // 1d4',
+  '1d10 % 3',
+  '(1d6 - 4) % 3',
+  '(1d6 - 4) / 3 * 3',
+  '2d6 >= 7',
+  '1d20 + 1 == 1d20',
+  // Dice operations
+  '4d6kh3',
+  '4d6pl1',
+  '3d8k>4',
+  '2d20kl1',
+  '4d6rr1',
+  '2d10ro<3',
+  '3d6mi2ma5',
+  '3d6e6',
+  '2d6ra6',
+  '10d10cs>7cf1',
+  // Other dice
+  '4dF',
+  'd%',
+  '2d{0,0,1,2}',
+  // Sets and functions
+  '(1d20, 1d20)kh1',
+  '(1d4, 1d6, 1d8)p<3',
+  'floor(1d20 / 3) + ceil(1d20 / 3)',
+  'round(3d6 / 4)',
+  'max(1d6, 1d8 - 2)',
+  'abs(1d6 - 1d6)',
+];
+
+test.each(expressions)('rolls of %s lie in the support of its distribution', (expression) => {
+  const iterations = 200;
+  const distribution = d20.distribution(expression);
+  const random = new d20.SeededRandom(15);
+
+  for (let _ = 0; _ < iterations; _++) {
+    const total = d20.roll(expression, { random }).total();
+    expect(distribution.get(total), `${expression} rolled ${total}`).toBeGreaterThan(0);
+  }
+});
+
+test('test division semantics', () => {
+  // Division is not rounded, integer division rounds down (note that `-7 // 2` is parsed as `-(7 // 2)`)
+  for (const [expression, total] of [
+    ['7 / 2', 3.5],
+    ['7 // 2', 3],
+    ['(-7) // 2', -4],
+    ['(-7) / 2', -3.5],
+  ] as const) {
+    expect(d20.roll(expression).total()).toBe(total);
+    expect(d20.distribution(expression).keys()).toEqual([total]);
+  }
+});
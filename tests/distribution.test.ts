@@ -28,11 +28,286 @@ test('test exceptions', () => {
 test('test limits', () => {
   // The expressions below should within the acceptable limits
 
-  d20.distribution('50d50'); // No operators, less than 101*101
+  d20.distribution('50d50'); // No operators, 2451 outcomes
   d20.distribution('4d6mi3'); // Operators, less than 8192 possibilities
+  d20.distribution('8d6kh3'); // Keep operator, calculated using order statistics
+  d20.distribution('10d10pl2'); // Drop operator, calculated using order statistics
 
-  expect(() => d20.distribution('400d400')).toThrowError(d20.DistributionError); // No operators, too many dice
-  expect(() => d20.distribution('6d6mi3')).toThrowError(d20.DistributionError); // Operators, too many possibilities
+  d20.distribution('400d400'); // No operators, 159601 outcomes
+  expect(() => d20.distribution('10000d1000')).toThrowError(d20.DistributionError); // No operators, too many outcomes
+  d20.distribution('6d6kh3pl1'); // Multiple operators, 462 states
+  d20.distribution('10d6mi2kh9pl1'); // Multiple operators, 3003 states
+
+  expect(() => d20.distribution('100d100kh3pl1')).toThrowError(d20.DistributionError); // Multiple operators, too many states
+});
+
+test('test exploding and rerolling limits', () => {
+  // Every explosion or reroll multiplies the number of states, which has to be rejected before enumerating them
+  for (const expression of ['8d6e6kh3', '10d6e6kh3', '20d6e6kh3pl1', '12d6ro<4kh3pl1', '16d6ro<4kh3pl1', '20d6rr<3kh3pl1']) {
+    expect(() => d20.distribution(expression)).toThrowError(d20.TooManyStatesError);
+  }
+  expect(d20.distribution('6d6rr1kh3pl1').residual()).toBeCloseTo(0, 10);
+
+  // Which leaves time to estimate the distribution instead
+  expect(d20.distribution('20d6e6kh3pl1', { fallback: { iterations: 1000, seed: 1 } }).isApproximate()).toBe(true);
+}, 30_000);
+
+test('test configurable limits', () => {
+  expect(() => d20.distribution('10000d1000')).toThrowError(d20.TooManyOutcomesError);
+  expect(() => d20.distribution('100d100kh3pl1')).toThrowError(d20.TooManyStatesError);
+  expect(() => d20.distribution('(1d20, 1d20, 1d20)kh2', { limits: { maxStates: 100 } })).toThrowError(d20.TooManyStatesError);
+  expect(() => d20.distribution('6d6kh3pl1', { limits: { maxStates: 100 } })).toThrowError(d20.TooManyStatesError);
+
+  // Limits can be tightened and loosened
+  expect(() => d20.distribution('50d50', { limits: { maxOutcomes: 1000 } })).toThrowError(d20.TooManyOutcomesError);
+  expect(() => d20.distribution('200d100', { limits: { maxOutcomes: 200 * 99 + 1 } })).not.toThrow();
+  expect(() => d20.distribution('200d100', { limits: { maxOutcomes: 200 * 99 } })).toThrowError(d20.TooManyOutcomesError);
+  expect(() => d20.distribution('400d400', { exact: true })).toThrowError(d20.TooManyOutcomesError);
+  expect(() => d20.distribution('2d6', { exact: true, limits: { maxExactOutcomes: 10 } })).toThrowError(d20.TooManyOutcomesError);
+  expect(() => d20.distribution('2d6', { exact: true, limits: { maxExactOutcomes: 11 } })).not.toThrow();
+  expect(() => d20.distribution('40d20kh10', { limits: { maxStates: 100 } })).toThrowError(d20.TooManyStatesError);
+  expect(() => d20.distribution('60d20kh10')).toThrowError(d20.TooManyStatesError);
+  expect(d20.distribution('60d20kh10', { limits: { maxStates: 1_000_000 } }).max()).toBe(200);
+  expect(() => d20.distribution('8d6', { limits: { maxDice: 4 } })).toThrowError(d20.TooManyDiceError);
+  expect(() => d20.distribution('1d100', { limits: { maxSides: 20 } })).toThrowError(d20.TooManySidesError);
+  expect(() => d20.distribution('((1d6))', { limits: { maxDepth: 2 } })).toThrowError(d20.ExpressionTooDeepError);
+
+  try {
+    d20.distribution('1d20 + 10000d1000');
+    expect.unreachable();
+  } catch (error) {
+    expect((error as d20.TooManyOutcomesError).node.toString()).toBe('10000d1000');
+  }
+});
+
+test('test distribution queries', () => {
+  const d6 = d20.distribution('1d6');
+  expect(d6.cdf(2)).toBeCloseTo(2 / 6);
+  expect(d6.cdf(0)).toBe(0);
+  expect(d6.cdf(6)).toBeCloseTo(1);
+  expect(d6.sf(2)).toBeCloseTo(4 / 6);
+  expect(d6.atLeast(2)).toBeCloseTo(5 / 6);
+  expect(d6.between(2, 4)).toBeCloseTo(3 / 6);
+  expect(d6.between(4, 2)).toBe(0);
+
+  expect(d6.quantile(0)).toBe(1);
+  expect(d6.quantile(0.5)).toBe(3);
+  expect(d6.quantile(0.51)).toBe(4);
+  expect(d6.quantile(1)).toBe(6);
+  expect(d6.median()).toBe(3);
+  expect(() => d6.quantile(1.5)).toThrow(d20.DistributionError);
+
+  expect(d6.variance()).toBeCloseTo(35 / 12);
+  expect(d6.stddev()).toBeCloseTo(Math.sqrt(35 / 12));
+  expect(d6.skewness()).toBeCloseTo(0);
+  expect(d6.kurtosis()).toBeCloseTo(-222 / 175); // Excess kurtosis of a discrete uniform distribution
+
+  const stats = d20.distribution('4d6kh3');
+  expect(stats.mode()).toBe(13);
+  expect(stats.median()).toBe(12);
+  expect(stats.skewness()).toBeLessThan(0); // Dropping the lowest die skews the stats towards high values
+  expect(d20.distribution('1d20').mode()).toBe(1); // Ties prefer the lowest outcome
+});
+
+test('test conditional distributions', () => {
+  const d20s = d20.distribution('1d20 + 5');
+  const hits = d20s.given((total) => total >= 15);
+  expect(hits.min()).toBe(15);
+  expect(hits.get(15)).toBeCloseTo(1 / 11);
+  expect(hits.mean()).toBeCloseTo(20);
+  expect(d20s.mean()).toBeCloseTo(15.5);
+
+  expect(() => d20s.given((total) => total > 25)).toThrow(d20.DistributionError);
+});
+
+test('test exact distributions', () => {
+  const d20s = d20.ExactDistribution.fromAST(d20.parse('1d20'));
+  for (const key of d20s.keys()) {
+    expect(d20s.get(key).toString()).toBe('1/20');
+  }
+
+  // The probabilities of many dice still add up to exactly 1
+  const many = d20.ExactDistribution.fromAST(d20.parse('100d100'));
+  expect(many.residual().isZero()).toBe(true);
+  expect(many.get(100).toString()).toBe(`1/${10n ** 200n}`);
+
+  const stats = d20.ExactDistribution.fromAST(d20.parse('4d6kh3'));
+  expect(stats.get(18).toString()).toBe('7/432');
+  expect(stats.get(3).toString()).toBe('1/1296');
+  expect(stats.residual().isZero()).toBe(true);
+
+  expect(d20.ExactDistribution.fromAST(d20.parse('2d{0,0,1,2}')).get(2).toString()).toBe('5/16');
+  expect(d20.ExactDistribution.fromAST(d20.parse('adv(1d20)')).get(20).toString()).toBe('39/400');
+  expect(d20.ExactDistribution.fromAST(d20.parse('dis(1d20)')).get(20).toString()).toBe('1/400');
+  const variables = { str: 1 };
+  expect(d20.ExactDistribution.fromAST(d20.parse('floor(1d6 / 2) + str'), { variables }).get(2).toString()).toBe('1/3');
+  expect(d20.ExactDistribution.fromAST(d20.parse('(1d20, 1d20)kh1')).get(20).toString()).toBe('39/400');
+  expect(() => d20.ExactDistribution.fromAST(d20.parse('1d20 / (1d2 - 1)'))).toThrow(d20.DistributionError);
+});
+
+test('test exact option agrees with floats', () => {
+  for (const expression of ['1d20 + 5', '4d6kh3', '3d6rr1', '2d6e6', '10d10cs>7cf1', '4dF', '1d20 // 3', 'adv(1d20, 3)', '(1d6, 1d6 + 1, 2d4)pl1', 'max(1d8, 2d4) % 3 >= 1']) {
+    const exact = d20.distribution(expression, { exact: true });
+    const float = d20.distribution(expression);
+    // Explosions are cut off at different depths, which only leaves out negligible probabilities
+    for (const key of new Set([...exact.keys(), ...float.keys()])) {
+      expect(exact.get(key)).toBeCloseTo(float.get(key), 10);
+    }
+  }
+
+  expect(d20.distribution('1d20', { exact: true }).get(7)).toBe(0.05);
+});
+
+test('test large dice pools', () => {
+  const pool = d20.distribution('1000d20');
+  expect(pool.min()).toBe(1000);
+  expect(pool.max()).toBe(20000);
+  expect(pool.mean()).toBeCloseTo(10500, 6);
+  expect(pool.stddev()).toBeCloseTo(Math.sqrt((1000 * (20 * 20 - 1)) / 12), 6);
+  expect(pool.residual()).toBeCloseTo(0, 10);
+
+  // Large convolutions agree with the exact probabilities
+  const exact = d20.distribution('100d20', { exact: true });
+  const float = d20.distribution('70d20 + 30d20');
+  for (const key of exact.keys()) {
+    expect(float.get(key)).toBeCloseTo(exact.get(key), 14);
+  }
+
+  // Including the relative accuracy of the tiny probabilities in the tails, e.g. 20^-100 for rolling 100 ones
+  const single = d20.distribution('100d20');
+  for (const key of [100, 101, 120, 200, 1000, 1900, 2000]) {
+    const probability = exact.get(key);
+    expect(probability).toBeGreaterThan(0);
+    expect(Math.abs(single.get(key) - probability) / probability).toBeLessThan(1e-9);
+    expect(Math.abs(float.get(key) - probability) / probability).toBeLessThan(1e-9);
+  }
+
+  // Larger pools are convolved with the fast Fourier transform, which is accurate to about 1e-16
+  const transformed = d20.distribution('200d20');
+  const transformedExact = d20.distribution('200d20', { exact: true });
+  for (const key of transformedExact.keys()) {
+    expect(transformed.get(key)).toBeCloseTo(transformedExact.get(key), 15);
+  }
+});
+
+test('test sampled distributions', () => {
+  const expression = d20.parse('4d6kh3');
+  const exact = d20.distribution('4d6kh3');
+  const sampled = d20.Distribution.sample(expression, { iterations: 20_000, seed: 7 });
+
+  expect(sampled.isApproximate()).toBe(true);
+  expect(exact.isApproximate()).toBe(false);
+  expect(sampled.iterations).toBe(20_000);
+  expect(sampled.keys().reduce((total, key) => total + sampled.count(key), 0)).toBe(20_000);
+  expect(sampled.mean()).toBeCloseTo(exact.mean(), 1);
+
+  // With a 99.9% confidence level every interval should contain the exact probability
+  for (const key of exact.keys()) {
+    const [low, high] = sampled.interval(key, 0.999);
+    expect(low).toBeLessThanOrEqual(exact.get(key));
+    expect(high).toBeGreaterThanOrEqual(exact.get(key));
+  }
+
+  // Totals that were never rolled still have an interval above zero
+  const [low, high] = sampled.interval(100);
+  expect(low).toBeCloseTo(0, 10);
+  expect(high).toBeGreaterThan(0);
+
+  expect(() => d20.Distribution.sample(expression, { iterations: 0 })).toThrow(d20.DistributionError);
+  expect(() => sampled.interval(10, 1)).toThrow(d20.DistributionError);
+});
+
+test('test sampling as fallback', () => {
+  expect(() => d20.distribution('100d100kh3pl1')).toThrow(d20.TooManyStatesError);
+
+  const fallback = d20.distribution('100d100kh3pl1', { fallback: { iterations: 200, seed: 3 } });
+  expect(fallback.isApproximate()).toBe(true);
+  expect(fallback.min()).toBeGreaterThanOrEqual(2);
+  expect(fallback.max()).toBeLessThanOrEqual(200);
+
+  // Large expressions are sampled without the default limit on the number of rolls, unless it is given
+  expect(d20.distribution('2000d6kh3pl1', { fallback: { iterations: 20, seed: 1 } }).isApproximate()).toBe(true);
+  expect(() => d20.distribution('2000d6kh3pl1', { fallback: { iterations: 20 }, limits: { maxRolls: 1000 } })).toThrow(d20.TooManyRollsError);
+
+  // Distributions that can be calculated, or that are invalid, are not sampled
+  expect(d20.distribution('4d6kh3', { fallback: true }).isApproximate()).toBe(false);
+  expect(() => d20.distribution('1d6 / 0', { fallback: true })).toThrow(d20.DistributionError);
+  expect(d20.distribution('400d400', { exact: true, fallback: { iterations: 100 } }).isApproximate()).toBe(true);
+});
+
+test('test comparing distributions', () => {
+  const a = d20.distribution('2d6');
+  const b = d20.distribution('1d12');
+
+  expect(a.probabilityGreater(b)).toBeCloseTo(1 / 2);
+  expect(a.probabilityEqual(b)).toBeCloseTo(1 / 12);
+  expect(a.expectedDifference(b)).toBeCloseTo(0.5);
+  expect(b.probabilityGreater(a)).toBeCloseTo(1 - 1 / 2 - 1 / 12);
+
+  // Large distributions are compared without combining every pair of totals
+  const pool = d20.distribution('1000d20');
+  expect(pool.probabilityGreater(pool)).toBeCloseTo((1 - pool.probabilityEqual(pool)) / 2, 12);
+  expect(pool.expectedDifference(d20.distribution('1000d20 + 1'))).toBeCloseTo(-1, 6);
+  expect(a.totalVariation(b)).toBeCloseTo(1 / 4);
+  expect(a.totalVariation(a)).toBe(0);
+  expect(a.klDivergence(b)).toBeCloseTo(0.2152642);
+  expect(b.klDivergence(a)).toBe(Infinity); // 2d6 cannot roll a 1
+
+  expect(d20.distribution('4d6kh3').dominates(d20.distribution('3d6'))).toBe(true);
+  expect(d20.distribution('4d6kh3').dominates(d20.distribution('3d6 + 1'))).toBe(false);
+  expect(d20.distribution('1d20 + 1').dominates(d20.distribution('1d20'))).toBe(true);
+  expect(d20.distribution('1d20').dominates(d20.distribution('1d20'))).toBe(true);
+  expect(a.dominates(b)).toBe(false);
+  expect(b.dominates(a)).toBe(false);
+});
+
+test('test chi-square goodness of fit', () => {
+  const d6 = d20.distribution('1d6');
+
+  // A fair die, and a die that rolls too many sixes
+  const fair = new Map([
+    [1, 100],
+    [2, 98],
+    [3, 103],
+    [4, 101],
+    [5, 97],
+    [6, 101],
+  ]);
+  const loaded = new Map([
+    [1, 80],
+    [2, 80],
+    [3, 80],
+    [4, 80],
+    [5, 80],
+    [6, 200],
+  ]);
+
+  const result = d6.chiSquareTest(fair);
+  expect(result.degreesOfFreedom).toBe(5);
+  expect(result.statistic).toBeCloseTo(0.24);
+  expect(result.pValue).toBeGreaterThan(0.99);
+  expect(d6.chiSquareTest(loaded).pValue).toBeLessThan(1e-10);
+
+  expect(d6.chiSquareTest(new Map([[7, 1]])).pValue).toBe(0);
+  expect(() => d6.chiSquareTest(new Map())).toThrow(d20.DistributionError);
+
+  // The critical value of the chi-square distribution with one degree of freedom at a significance level of 0.05
+  const deviation = Math.sqrt(3.841459 * 25);
+  const flips = new Map([
+    [1, 50 + deviation],
+    [2, 50 - deviation],
+  ]);
+  expect(d20.distribution('1d2').chiSquareTest(flips).statistic).toBeCloseTo(3.841459);
+  expect(d20.distribution('1d2').chiSquareTest(flips).pValue).toBeCloseTo(0.05, 6);
+
+  // Rolls follow their own distribution
+  const random = new d20.SeededRandom(5);
+  const observed = new Map<number, number>();
+  for (let i = 0; i < 2000; i++) {
+    const total = d20.roll('3d6', { random }).total();
+    observed.set(total, (observed.get(total) ?? 0) + 1);
+  }
+  expect(d20.distribution('3d6').chiSquareTest(observed).pValue).toBeGreaterThan(0.001);
 });
 
 test('test rolling zero dice', () => {
@@ -161,3 +436,261 @@ test('test ma operator', () => {
 
   verifyDistribution(expression, probabilities, mean, stddev);
 });
+
+test('test comparison', () => {
+  const distribution = d20.distribution('1d20 + 5 >= 15');
+
+  expect(distribution.keys()).toEqual([0, 1]);
+  expect(distribution.get(1)).toBeCloseTo(0.55);
+  expect(distribution.get(0)).toBeCloseTo(0.45);
+  expect(distribution.mean()).toBeCloseTo(0.55);
+
+  expect(d20.distribution('1d6 <= 2').get(1)).toBeCloseTo(1 / 3);
+  expect(d20.distribution('1d6 == 1d6').get(1)).toBeCloseTo(1 / 6);
+});
+
+test('test kh operator', () => {
+  // Results were verified using anydice using input `output [highest 3 of 4d6]`
+  const expression = '4d6kh3';
+  const probabilities: [number, number][] = [
+    [3, 0.0008],
+    [4, 0.0031],
+    [5, 0.0077],
+    [6, 0.0162],
+    [7, 0.0293],
+    [8, 0.0478],
+    [9, 0.0702],
+    [10, 0.0941],
+    [11, 0.1142],
+    [12, 0.1289],
+    [13, 0.1327],
+    [14, 0.1235],
+    [15, 0.1011],
+    [16, 0.0725],
+    [17, 0.0417],
+    [18, 0.0162],
+  ];
+  const mean = 12.24;
+  const stddev = 2.85;
+
+  verifyDistribution(expression, probabilities, mean, stddev);
+});
+
+test('test kl operator', () => {
+  const distribution = d20.distribution('2d20kl1');
+
+  expect(distribution.get(1)).toBeCloseTo(39 / 400);
+  expect(distribution.get(20)).toBeCloseTo(1 / 400);
+  expect(distribution.mean()).toBeCloseTo(7.175);
+});
+
+test('test keep and drop selectors', () => {
+  // Dropping the highest die is the same as keeping the lowest dice
+  const dropped = d20.distribution('4d6ph1');
+  const kept = d20.distribution('4d6kl3');
+  for (const key of kept.keys()) {
+    expect(dropped.get(key)).toBeCloseTo(kept.get(key));
+  }
+
+  // Keeping dice by their value happens independently for each die
+  expect(d20.distribution('2d6k>4').get(0)).toBeCloseTo(4 / 9);
+  expect(d20.distribution('2d6p6').get(12)).toBe(0);
+  expect(d20.distribution('1d6k<3').mean()).toBeCloseTo(0.5);
+
+  // The calculation should agree with enumerating all rolls
+  const analytic = d20.distribution('3d6kh2');
+  const enumerated = d20.distribution('3d6kh2pl0');
+  for (const key of analytic.keys()) {
+    expect(enumerated.get(key)).toBeCloseTo(analytic.get(key));
+  }
+});
+
+test('test functions', () => {
+  const halved = d20.distribution('floor(1d20 / 2)');
+  expect(halved.min()).toEqual(0);
+  expect(halved.max()).toEqual(10);
+  expect(halved.get(0)).toBeCloseTo(0.05);
+
+  const minimum = d20.distribution('max(1d6, 3)');
+  expect(minimum.get(3)).toBeCloseTo(0.5);
+  expect(minimum.mean()).toBeCloseTo(4);
+
+  expect(d20.distribution('abs(1d6 - 4)').keys()).toEqual([0, 1, 2, 3]);
+  expect(d20.distribution('min(1d4, 1d6, 1d8)').max()).toEqual(4);
+
+  // Division is the same as when rolling
+  expect(d20.distribution('7 / 2').keys()).toEqual([3.5]);
+  expect(d20.distribution('ceil(7 / 2)').keys()).toEqual([4]);
+});
+
+test('test advantage', () => {
+  // Advantage on a single die is the same as keeping the highest die
+  const advantage = d20.distribution('adv(1d20)');
+  const kept = d20.distribution('2d20kh1');
+  for (const key of kept.keys()) {
+    expect(advantage.get(key)).toBeCloseTo(kept.get(key));
+  }
+
+  expect(d20.distribution('dis(1d20, 3)').mean()).toBeCloseTo(d20.distribution('3d20kl1').mean());
+  expect(d20.distribution('1d20 + 5', { advantage: { mode: 'advantage', count: 3 } }).mean()).toBeCloseTo(d20.distribution('3d20kh1').mean() + 5);
+
+  // The whole expression is rolled with advantage, not each die
+  const sum = d20.distribution('adv(1d4 + 1d4)');
+  expect(sum.get(8)).toBeCloseTo(1 - (15 / 16) ** 2);
+  expect(sum.get(2)).toBeCloseTo(1 / 256);
+});
+
+test('test critical chance', () => {
+  const chance = (expression: string, options: d20.CriticalOptions = {}) => d20.Distribution.criticalChance(d20.parse(expression), options);
+  const fumble = (expression: string) => d20.Distribution.fumbleChance(d20.parse(expression));
+
+  expect(chance('1d20 + 5')).toBeCloseTo(0.05);
+  expect(chance('1d20', { critical: 19 })).toBeCloseTo(0.1);
+  expect(chance('2d20kh1')).toBeCloseTo(1 - (19 / 20) ** 2);
+  expect(fumble('2d20kh1')).toBeCloseTo(1 / 400);
+  expect(chance('1d20 + 1d20')).toBeCloseTo(1 - (19 / 20) ** 2);
+  expect(chance('8d6')).toEqual(0);
+  expect(chance('4d6kh3', { sides: 6 })).toBeCloseTo(1 - (5 / 6) ** 4);
+
+  expect(() => chance('(1d20, 1d20)kh1')).toThrow(d20.DistributionError);
+
+  // Only the natural faces count, regardless of mi and ma
+  expect(chance('1d20mi20')).toBeCloseTo(0.05);
+  expect(chance('1d20ma19')).toBeCloseTo(0.05);
+  expect(fumble('1d20mi2')).toBeCloseTo(0.05);
+  expect(() => chance('2d20mi10kh1')).toThrow(d20.DistributionError);
+});
+
+test('test variables', () => {
+  const distribution = d20.distribution('1d20 + str', { variables: { str: 3 } });
+  expect(distribution.min()).toEqual(4);
+  expect(distribution.max()).toEqual(23);
+
+  expect(() => d20.distribution('1d20 + str')).toThrow(d20.UndefinedVariableError);
+});
+
+test('test custom dice faces', () => {
+  const fudge = d20.distribution('4dF');
+  expect(fudge.min()).toEqual(-4);
+  expect(fudge.max()).toEqual(4);
+  expect(fudge.get(0)).toBeCloseTo(19 / 81);
+  expect(fudge.mean()).toBeCloseTo(0);
+
+  expect(d20.distribution('d%').keys().length).toEqual(100);
+  expect(d20.distribution('1d{2,4,6,8}').get(6)).toBeCloseTo(0.25);
+
+  // Faces that appear more than once are more likely
+  const weighted = d20.distribution('1d{1,1,2}');
+  expect(weighted.get(1)).toBeCloseTo(2 / 3);
+  expect(d20.distribution('2d{1,1,2}kh1').get(1)).toBeCloseTo(4 / 9);
+});
+
+test('test counting operators', () => {
+  // The number of successes follows a binomial distribution
+  const successes = d20.distribution('10d10cs>7');
+  expect(successes.min()).toEqual(0);
+  expect(successes.max()).toEqual(10);
+  expect(successes.get(10)).toBeCloseTo(Math.pow(0.3, 10));
+  expect(successes.mean()).toBeCloseTo(3);
+
+  expect(d20.distribution('10d10cs>7cf1').mean()).toBeCloseTo(2);
+  expect(d20.distribution('6d6kh3cs6').max()).toEqual(3);
+  expect(d20.distribution('2d10cs>7e10').mean()).toBeCloseTo(0.6 / 0.9);
+  expect(() => d20.distribution('4d6csl1')).toThrow(d20.DistributionError);
+});
+
+test('test sets', () => {
+  // Keeping the highest of two d20 rolls is the same as advantage
+  const advantage = d20.distribution('(1d20, 1d20)kh1');
+  const kept = d20.distribution('2d20kh1');
+  for (const key of kept.keys()) {
+    expect(advantage.get(key)).toBeCloseTo(kept.get(key));
+  }
+
+  // Without operations a set is the sum of its elements
+  expect(d20.distribution('(1d4, 1d6, 1d8)').mean()).toBeCloseTo(10.5);
+  expect(d20.distribution('(1d4, 1d6)kl1').get(4)).toBeCloseTo(3 / 24);
+  expect(d20.distribution('(1d4, 2)p>1').mean()).toBeCloseTo(0.25);
+  expect(d20.distribution('()kh1').get(0)).toEqual(1);
+
+  // Keeping the highest or lowest of identical elements uses order statistics instead of enumerating the sorted totals
+  const identical = d20.distribution('(2d6, 2d6, 2d6, 2d6)pl2');
+  const enumerated = d20.distribution('(2d6, 2d6, 2d6, 2d6 + 0)pl2');
+  for (const key of enumerated.keys()) {
+    expect(identical.get(key)).toBeCloseTo(enumerated.get(key), 12);
+  }
+  const stats = d20.distribution('(4d6kh3, 4d6kh3, 4d6kh3, 4d6kh3, 4d6kh3, 4d6kh3, 4d6kh3)pl1');
+  expect(stats.min()).toEqual(18);
+  expect(stats.max()).toEqual(108);
+  expect(stats.residual()).toBeCloseTo(0, 10);
+
+  // Other sets are rejected before combining too many states
+  expect(() => d20.distribution('(10d10, 10d10, 10d10, 10d10 + 1)kh1')).toThrowError(d20.TooManyStatesError);
+});
+
+test('test reroll operators', () => {
+  // Rerolling until the die no longer matches
+  const rerolled = d20.distribution('2d6rr1');
+  expect(rerolled.min()).toEqual(4);
+  expect(rerolled.mean()).toBeCloseTo(8);
+  expect(rerolled.get(4)).toBeCloseTo(1 / 25);
+
+  // Rerolling once can still result in a matching die
+  const once = d20.distribution('1d20ro1');
+  expect(once.get(1)).toBeCloseTo(1 / 400);
+  expect(once.get(2)).toBeCloseTo(1 / 20 + 1 / 400);
+  expect(once.mean()).toBeCloseTo(10.975);
+
+  expect(() => d20.distribution('1d6rr<7')).toThrow(d20.DistributionError);
+  expect(() => d20.distribution('4d6rrh1')).toThrow(d20.DistributionError);
+});
+
+test('test explode operators', () => {
+  // Adding a single die if any die matches
+  const once = d20.distribution('2d6ra6');
+  expect(once.min()).toEqual(2);
+  expect(once.max()).toEqual(18);
+  expect(once.mean()).toBeCloseTo(7 + (11 / 36) * 3.5);
+
+  // Exploding dice, where the series is cut off
+  const exploded = d20.distribution('1d6e6');
+  expect(exploded.get(6)).toEqual(0);
+  expect(exploded.get(7)).toBeCloseTo(1 / 36);
+  expect(exploded.mean()).toBeCloseTo(4.2);
+  expect(exploded.residual()).toBeLessThan(1e-10);
+
+  const shallow = d20.distribution('1d6e6', { explodeDepth: 2 });
+  expect(shallow.max()).toEqual(17);
+  expect(shallow.residual()).toBeCloseTo(1 / 216);
+
+  // The depth is limited by the explosions a roll allows as well
+  const limited = d20.distribution('1d6e6', { limits: { maxExplodeDepth: 2 } });
+  expect(limited.max()).toEqual(17);
+  expect(limited.residual()).toBeCloseTo(1 / 216);
+  const kept = d20.distribution('2d6e6kh1', { limits: { maxExplodeDepth: 1 } });
+  expect(kept.residual()).toBeGreaterThan(0.01);
+  expect(kept.residual()).toBeCloseTo(d20.distribution('2d6e6kh1', { explodeDepth: 1 }).residual(), 12);
+
+  expect(() => d20.distribution('1d1e1')).toThrow(d20.DistributionError);
+});
+
+test('test operators agree with rolls (Monte Carlo)', () => {
+  const iterations = 5_000;
+  const expressions = ['8d6e6', '1d20ro1', '4d6rr<3', '3d8ra>6', '6d6kh5pl3', '4d6mi2kh3pl1', '3d6roh1', '2d6eh1', '3d6e6kh2', '(1d4, 1d6, 1d8)kh2', '(2d6, 1d12 - 1)pl1', '8d10cs>7cf1', '5d10kh3cs>5', '4dF', '3d{1,1,2,5}kh2', 'floor(3d6 / 2)', 'max(1d8, 1d6 + 1)', 'adv(2d6 + 1d4, 3)', 'dis(1d20 - 1d4)'];
+
+  for (const expression of expressions) {
+    const distribution = d20.distribution(expression);
+    const random = new d20.SeededRandom(20);
+
+    let total = 0;
+    for (let _ = 0; _ < iterations; _++) {
+      const roll = d20.roll(expression, { random });
+      expect(distribution.get(roll.total())).toBeGreaterThan(0);
+      total += roll.total();
+    }
+
+    // The mean of the rolls should lie within five standard errors of the expected mean
+    const error = distribution.stddev() / Math.sqrt(iterations);
+    expect(Math.abs(total / iterations - distribution.mean())).toBeLessThan(5 * error);
+  }
+}, 30_000);
@@ -1,8 +1,8 @@
 import { expect, test } from 'vitest';
 
 import * as d20 from '../src';
-import { TooManyRollsError } from '../src/errors';
-import { RolledDice } from '../src/roll';
+import { ModifierError, TooManyRollsError } from '../src/errors';
+import { RolledDice, RolledSet } from '../src/roll';
 
 test('test explode infinite', () => {
   // This behavior should be consistent with Avrae
@@ -36,3 +36,82 @@ test('test keep and drop', () => {
   const roll = d20.roll(expression);
   expect((roll as RolledDice).keptDice().length).toBe(2);
 });
+
+test('test counting successes', () => {
+  const roll = d20.roll('10d10cs>7cf1', { seed: 4 }) as RolledDice;
+  const values = roll.dice.map((die) => die.value);
+  const successes = values.filter((value) => value > 7).length;
+  const failures = values.filter((value) => value === 1).length;
+
+  expect(roll.isCounting()).toBe(true);
+  expect(roll.total()).toBe(successes - failures);
+
+  // Only the kept dice are counted
+  expect(d20.roll('4d1kh2cs1').total()).toBe(2);
+  expect(() => d20.roll('4d6csh1')).toThrow(ModifierError);
+});
+
+test('test set keep and drop', () => {
+  const roll = d20.roll('(1d20, 1d20, 1d20)kh2pl1', { seed: 10 }) as RolledSet;
+  const totals = roll.elements.map((element) => element.total());
+  const expected = [...totals].sort((a, b) => b - a)[0];
+
+  expect(roll.keptElements().length).toBe(1);
+  expect(roll.total()).toBe(expected);
+  expect(roll.droppedBy.filter((op) => op !== null).map((op) => op.toString())).toEqual(['kh2', 'pl1']);
+
+  // Selectors compare the totals of the elements
+  const selected = d20.roll('(1, 2 + 3, 4 * 2)k>4p8') as RolledSet;
+  expect(selected.kept).toEqual([false, true, false]);
+  expect(selected.total()).toBe(5);
+});
+
+test('test trace of dropped dice', () => {
+  const roll = d20.roll('4d6kh3', { seed: 6 });
+  const trace = roll.toJSON() as d20.RolledDiceJSON;
+
+  expect(trace.type).toBe('Dice');
+  expect(trace.total).toBe(roll.total());
+  expect(trace.dice.length).toBe(4);
+  expect(trace.dice.filter((die) => die.kept).length).toBe(3);
+  expect(trace.dice.filter((die) => !die.kept).map((die) => die.droppedBy)).toEqual(['kh3']);
+});
+
+test('test trace of changed dice', () => {
+  const trace = d20.roll('1d6mi7').toJSON() as d20.RolledDiceJSON;
+  const die = trace.dice[0];
+
+  expect(die.value).toBe(7);
+  expect(die.history.length).toBe(2);
+  expect(die.history[0].operation).toBeNull();
+  expect(die.history[1]).toEqual({ value: 7, operation: 'mi7' });
+
+  const exploded = d20.roll('1d1eh5').toJSON() as d20.RolledDiceJSON;
+  expect(exploded.dice[0].history[0].operation).toBeNull();
+  expect(exploded.dice[5].history[0].operation).toBe('eh5');
+});
+
+test('test trace of expression', () => {
+  const roll = d20.roll('-(1d20 + 5) * 2');
+  const trace = JSON.parse(JSON.stringify(roll));
+
+  expect(trace.type).toBe('UnOp');
+  expect(trace.total).toBe(roll.total());
+  expect(trace.value.type).toBe('BinOp');
+  expect(trace.value.left.type).toBe('Parenthetical');
+  expect(trace.value.left.value.left.type).toBe('Dice');
+  expect(trace.value.right).toEqual({ type: 'Literal', total: 2, value: 2 });
+});
+
+test('test trace of annotations', () => {
+  // The expression of the trace leaves out the annotations and comment, which have their own fields
+  const dice = d20.roll('2d6kh1 [fire] # burn').toJSON() as d20.RolledDiceJSON;
+  expect(dice.expression).toBe('2d6kh1');
+  expect(dice.annotations).toEqual(['fire']);
+  expect(dice.comment).toBe('burn');
+
+  const set = d20.roll('(1d4 [cold], 2)kh1 [fire]').toJSON() as d20.RolledSetJSON;
+  expect(set.expression).toBe('(1d4 [cold], 2)kh1');
+  expect(set.annotations).toEqual(['fire']);
+  expect(set.elements[0].value).toMatchObject({ expression: '1d4', annotations: ['cold'] });
+});
@@ -1,5 +1,5 @@
 import { expect, test } from 'vitest';
-import { ASTBinOp } from '../src/parser';
+import { ASTAdvantage, ASTBinOp, ASTFunction, ASTParenthetical, ASTSet, ASTVariable } from '../src/parser';
 import * as d20 from '../src';
 import { isType } from './util';
 
@@ -17,3 +17,129 @@ test('verify parser order of operations', () => {
   expect((right as ASTBinOp).left.toString()).toBe('3');
   expect((right as ASTBinOp).right.toString()).toBe('5');
 });
+
+test('verify parser error details', () => {
+  let error: d20.ParserError | null = null;
+  try {
+    d20.parse('1d20 ++ kh3');
+  } catch (e) {
+    error = e as d20.ParserError;
+  }
+
+  expect(error).toBeInstanceOf(d20.ParserError);
+  expect(error!.location).toEqual({ offset: 8, line: 1, column: 9 });
+  expect(error!.found).toBe('k');
+  expect(error!.expected).toEqual(["'('", 'dice', 'number']);
+  expect(error!.snippet()).toBe('1d20 ++ kh3\n        ^');
+});
+
+test('verify parser error at end of expression', () => {
+  let error: d20.ParserError | null = null;
+  try {
+    d20.parse('(1d6');
+  } catch (e) {
+    error = e as d20.ParserError;
+  }
+
+  expect(error!.found).toBeNull();
+  expect(error!.expected).toContain("')'");
+  expect(error!.message).toContain('end of expression at line 1, column 5');
+  expect(error!.snippet()).toBe('(1d6\n    ^');
+});
+
+test('verify annotations and comments', () => {
+  const ast = d20.parse('2d6 [slashing] + 1d8 [ radiant ] [holy] + 3 # attack roll ');
+
+  expect(ast.comment).toBe('attack roll');
+  expect((ast as ASTBinOp).left.annotations).toEqual(['slashing']);
+  expect(((ast as ASTBinOp).right as ASTBinOp).left.annotations).toEqual(['radiant', 'holy']);
+  expect(((ast as ASTBinOp).right as ASTBinOp).right.annotations).toEqual([]);
+  expect(ast.toString()).toBe('2d6 [slashing] + 1d8 [radiant] [holy] + 3 # attack roll');
+});
+
+test('verify sets and parentheticals', () => {
+  const set = d20.parse('(1d20, 1d20 + 5)kh1');
+  expect(isType(set, ASTSet)).toBe(true);
+  expect((set as ASTSet).elements.map((element) => element.toString())).toEqual(['1d20', '1d20 + 5']);
+  expect((set as ASTSet).operations.map((op) => op.toString())).toEqual(['kh1']);
+
+  // Without a comma or operations the expression is a parenthetical, a trailing comma makes it a single element set
+  expect(isType(d20.parse('(1d20)'), ASTParenthetical)).toBe(true);
+  expect(isType(d20.parse('(1d20)pl1'), ASTSet)).toBe(true);
+  expect(d20.parse('( 1d20 , )').toString()).toBe('(1d20,)');
+  expect(d20.parse('()').toString()).toBe('()');
+
+  expect(() => d20.parse('(1d20, 1d20)rr1')).toThrow(d20.ParserError);
+});
+
+test('verify variables', () => {
+  const ast = d20.parse('1d20 + str + d4mod');
+  const right = (ast as ASTBinOp).right as ASTBinOp;
+
+  expect(isType(right.left, ASTVariable)).toBe(true);
+  expect((right.left as ASTVariable).name).toBe('str');
+  expect((right.right as ASTVariable).name).toBe('d4mod');
+
+  // Names that look like dice operations are not variables
+  expect(() => d20.parse('1d20 + kh3')).toThrow(d20.ParserError);
+  expect(isType(d20.parse('kh3x'), ASTVariable)).toBe(true);
+
+  // Variables are only required to be defined when the variables are given
+  expect(() => d20.parse('1d20 + str', { variables: { str: 3 } })).not.toThrow();
+  expect(() => d20.parse('1d20 + str', { variables: { dex: 1 } })).toThrow(d20.UndefinedVariableError);
+});
+
+test('verify functions', () => {
+  const ast = d20.parse('max(1d6, 3) + floor(1d20/2)');
+
+  expect(isType((ast as ASTBinOp).left, ASTFunction)).toBe(true);
+  expect(((ast as ASTBinOp).left as ASTFunction).args.map((arg) => arg.toString())).toEqual(['1d6', '3']);
+  expect(ast.toString()).toBe('max(1d6, 3) + floor(1d20 / 2)');
+
+  expect(() => d20.parse('unknown(1d6)')).toThrow(d20.ParserError);
+  expect(() => d20.parse('abs(1d6, 2)')).toThrow(d20.ParserError);
+  expect(() => d20.parse('min()')).toThrow(d20.ParserError);
+});
+
+test('verify advantage', () => {
+  const ast = d20.parse('adv(1d20 + 5, 3)');
+
+  expect(isType(ast, ASTAdvantage)).toBe(true);
+  expect((ast as ASTAdvantage).mode).toBe('advantage');
+  expect((ast as ASTAdvantage).count).toBe(3);
+  expect((ast as ASTAdvantage).value.toString()).toBe('1d20 + 5');
+  expect(d20.parse('dis(1d20)').toString()).toBe('dis(1d20)');
+
+  expect(() => d20.parse('adv(1d20, 0)')).toThrow(d20.ParserError);
+  expect(() => d20.parse('adv(1d20, 1d4)')).toThrow(d20.ParserError);
+});
+
+test('test expression limits', () => {
+  expect(() => d20.parse('1d20 + 5', { limits: { maxLength: 8 } })).not.toThrow();
+  expect(() => d20.parse('1d20 + 5', { limits: { maxLength: 7 } })).toThrow(d20.ExpressionTooLongError);
+
+  // The root node has depth 1, so `(1d20 + 5)` has a depth of 3
+  expect(() => d20.parse('(1d20 + 5)', { limits: { maxDepth: 3 } })).not.toThrow();
+  try {
+    d20.parse('(1d20 + 5)', { limits: { maxDepth: 2 } });
+    expect.unreachable();
+  } catch (error) {
+    expect(error).toBeInstanceOf(d20.ExpressionTooDeepError);
+    expect((error as d20.ExpressionTooDeepError).node.toString()).toBe('1d20');
+  }
+});
+
+test('test repeat limits', () => {
+  // By default at most 100 repeats are allowed, so huge counts are rejected before anything is rolled
+  expect(() => d20.parse('adv(1d20, 100)')).not.toThrow();
+  expect(() => d20.roll('adv(1, 3000000)')).toThrow(d20.TooManyRepeatsError);
+  expect(() => d20.parse('adv(1d20, 3)', { limits: { maxRepeats: 3 } })).not.toThrow();
+  try {
+    d20.parse('1d20 + dis(1d20, 4)', { limits: { maxRepeats: 3 } });
+    expect.unreachable();
+  } catch (error) {
+    expect(error).toBeInstanceOf(d20.TooManyRepeatsError);
+    expect((error as d20.TooManyRepeatsError).node.toString()).toBe('dis(1d20, 4)');
+  }
+  expect(() => d20.parse('adv(1d20, 1000)', { limits: { maxRepeats: 1000 } })).not.toThrow();
+});
@@ -0,0 +1,70 @@
+import { expect, test } from 'vitest';
+
+import * as d20 from '../src';
+import { CryptoRandom, RandomSource, SeededRandom } from '../src/random';
+
+test('test seeded random is deterministic', () => {
+  const a = new SeededRandom(1234);
+  const b = new SeededRandom(1234);
+  const c = new SeededRandom(4321);
+
+  const sequenceA = Array.from({ length: 16 }, () => a.next());
+  const sequenceB = Array.from({ length: 16 }, () => b.next());
+  const sequenceC = Array.from({ length: 16 }, () => c.next());
+
+  expect(sequenceA).toEqual(sequenceB);
+  expect(sequenceA).not.toEqual(sequenceC);
+});
+
+test('test random sources are in range', () => {
+  const sources: RandomSource[] = [new SeededRandom(), new CryptoRandom()];
+  for (const source of sources) {
+    for (let i = 0; i < 1_000; i++) {
+      const value = source.next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  }
+});
+
+test('test replay roll from seed', () => {
+  const expression = '10d20 + 4d6kh3';
+  const roll = d20.roll(expression);
+  expect(roll.seed).toBeDefined();
+
+  const replay = d20.roll(expression, { seed: roll.seed });
+  expect(replay.toString()).toBe(roll.toString());
+  expect(replay.total()).toBe(roll.total());
+});
+
+test('test replay rolls of a seeded roller', () => {
+  const expression = '10d20 + 4d6kh3';
+  const roller = new d20.Roller({ seed: 5 });
+  const first = roller.roll(d20.parse(expression));
+  const second = roller.roll(d20.parse(expression));
+  expect(first.seed).toBe(5);
+  expect(second.seed).not.toBe(first.seed);
+
+  // Every roll can be replayed from its own seed
+  for (const roll of [first, second]) {
+    const replay = d20.roll(expression, { seed: roll.seed });
+    expect(replay.toString()).toBe(roll.toString());
+  }
+
+  // The same goes for rolls with a shared seeded source
+  const random = new d20.SeededRandom(9);
+  const rolls = [new d20.Roller({ random }).roll(d20.parse(expression)), d20.roll(expression, { random }), d20.roll(expression, { random })];
+  expect(new Set(rolls.map((roll) => roll.seed)).size).toBe(3);
+  for (const roll of rolls) {
+    expect(d20.roll(expression, { seed: roll.seed }).toString()).toBe(roll.toString());
+  }
+});
+
+test('test custom random source', () => {
+  const lowest: RandomSource = { next: () => 0 };
+  const highest: RandomSource = { next: () => 0.999999 };
+
+  expect(d20.roll('4d6', { random: lowest }).total()).toBe(4);
+  expect(d20.roll('4d6', { random: highest }).total()).toBe(24);
+  expect(d20.roll('4d6', { random: lowest }).seed).toBeUndefined();
+});
@@ -0,0 +1,35 @@
+import { expect, test } from 'vitest';
+
+import { Rational } from '../src/rational';
+
+test('test rationals are normalized', () => {
+  expect(new Rational(2, 4).toString()).toBe('1/2');
+  expect(new Rational(3, -6).toString()).toBe('-1/2');
+  expect(new Rational(0, -5).equals(Rational.zero)).toBe(true);
+  expect(new Rational(10, 5).toString()).toBe('2');
+  expect(() => new Rational(1, 0)).toThrow(RangeError);
+});
+
+test('test rational arithmetic', () => {
+  const half = new Rational(1, 2);
+  const third = new Rational(1, 3);
+
+  expect(half.add(third).toString()).toBe('5/6');
+  expect(half.sub(third).toString()).toBe('1/6');
+  expect(half.mul(third).toString()).toBe('1/6');
+  expect(half.div(third).toString()).toBe('3/2');
+  expect(third.pow(3).toString()).toBe('1/27');
+  expect(half.compare(third)).toBe(1);
+  expect(third.compare(half)).toBe(-1);
+  expect(half.compare(new Rational(2, 4))).toBe(0);
+});
+
+test('test rational conversion to numbers', () => {
+  expect(new Rational(1, 20).toNumber()).toBe(0.05);
+  expect(new Rational(-7, 2).toNumber()).toBe(-3.5);
+
+  // Both parts are far too large for a float, but their ratio is not
+  const large = 10n ** 400n;
+  expect(new Rational(large, 3n * large + 1n).toNumber()).toBeCloseTo(1 / 3);
+  expect(new Rational(1n, large).toNumber()).toBe(0);
+});
@@ -61,3 +61,177 @@ test('test rebuild expression', () => {
 
   expect(roll.expression()).toBe('1d20 * 3 + (7 / (-8)) - 1d6mi3');
 });
+
+test('test comparison operators', () => {
+  expect(d20.roll('3 < 4').total()).toBe(1);
+  expect(d20.roll('3 > 4').total()).toBe(0);
+  expect(d20.roll('4 <= 4').total()).toBe(1);
+  expect(d20.roll('3 >= 4').total()).toBe(0);
+  expect(d20.roll('2 + 2 == 4').total()).toBe(1);
+  expect(d20.roll('2 + 2 != 4').total()).toBe(0);
+
+  const roll = d20.roll('1d20 + 5 >= 15');
+  expect([0, 1]).toContain(roll.total());
+  expect(roll.expression()).toBe('1d20 + 5 >= 15');
+});
+
+test('test annotations', () => {
+  const roll = d20.roll('2d6 [slashing] + 1d8 [radiant] + 3 [slashing] - (1d4 [radiant]) # attack');
+  const sum = roll as d20.RolledBinOp;
+  const rest = sum.right as d20.RolledBinOp;
+  const last = rest.right as d20.RolledBinOp;
+  const [slashing, radiant, bonus, penalty] = [sum.left, rest.left, last.left, (last.right as d20.RolledParenthetical).node].map((node) => node.total());
+
+  const totals = roll.annotationTotals();
+  expect(totals.get('slashing')).toBe(slashing + bonus);
+  expect(totals.get('radiant')).toBe(radiant - penalty);
+  expect(roll.expression()).toBe('2d6 [slashing] + 1d8 [radiant] + 3 [slashing] - (1d4 [radiant]) # attack');
+  expect(roll.comment).toBe('attack');
+});
+
+test('test custom dice faces', () => {
+  const random = new d20.SeededRandom(12);
+  d20.registerDie('boost', [0, 0, 1, 2, 2, 1]);
+
+  for (let _ = 0; _ < 100; _++) {
+    const fudge = d20.roll('4dF', { random }) as d20.RolledDice;
+    expect(fudge.dice.every((die) => [-1, 0, 1].includes(die.value))).toBe(true);
+
+    const percentile = d20.roll('d%', { random });
+    expect(percentile.total()).toBeGreaterThanOrEqual(1);
+    expect(percentile.total()).toBeLessThanOrEqual(100);
+
+    expect([2, 4, 6, 8]).toContain(d20.roll('1d{2,4,6,8}', { random }).total());
+    expect([0, 1, 2]).toContain(d20.roll('1d{boost}', { random }).total());
+  }
+
+  expect(d20.roll('2d{-1, 5}').expression()).toBe('2d{-1,5}');
+  expect(() => d20.parse('1d{unknown}')).toThrow(ParserError);
+});
+
+test('test variables', () => {
+  const variables = { str: 3, prof: 2 };
+  const roll = d20.roll('1d20 + str + prof', { variables });
+  const die = (roll as d20.RolledBinOp).left;
+
+  expect(roll.total()).toBe(die.total() + 5);
+  expect(roll.toString()).toBe(`${die.toString()} + 3 + 2`);
+  expect(roll.expression()).toBe('1d20 + str + prof');
+
+  const named = d20.roll('1d20 + str', { variables, showVariableNames: true });
+  expect(named.toString()).toBe(`${(named as d20.RolledBinOp).left.toString()} + str(3)`);
+
+  expect(() => d20.roll('1d20 + dex', { variables })).toThrow(d20.UndefinedVariableError);
+  expect(() => d20.roll('1d20 + constructor')).toThrow(d20.UndefinedVariableError);
+});
+
+test('test functions', () => {
+  expect(d20.roll('floor(7 / 2)').total()).toBe(3);
+  expect(d20.roll('ceil(7 / 2)').total()).toBe(4);
+  expect(d20.roll('round(2.4)').total()).toBe(2);
+  expect(d20.roll('abs(2 - 5)').total()).toBe(3);
+  expect(d20.roll('min(4, 2, 3)').total()).toBe(2);
+  expect(d20.roll('max(1d6, 7)').total()).toBe(7);
+
+  const roll = d20.roll('max(1d6, 3)');
+  expect(roll.toString()).toBe(`max(${(roll as d20.RolledFunction).args[0].toString()}, 3)`);
+  expect(roll.expression()).toBe('max(1d6, 3)');
+});
+
+test('test critical hits and fumbles', () => {
+  const highest: d20.RandomSource = { next: () => 0.999999 };
+  const lowest: d20.RandomSource = { next: () => 0 };
+
+  const critical = d20.roll('1d20 + 5', { random: highest });
+  expect(critical.isCritical()).toBe(true);
+  expect(critical.isFumble()).toBe(false);
+  expect(d20.roll('1d20 + 5', { random: lowest }).isFumble()).toBe(true);
+
+  // Only d20s can be critical by default, and only the kept dice count
+  expect(d20.roll('1d6', { random: highest }).isCritical()).toBe(false);
+  expect(d20.roll('1d6', { random: highest }).isCritical({ sides: 6 })).toBe(true);
+  expect(d20.roll('(1d20, 30)kh1', { random: highest }).isCritical()).toBe(false);
+
+  // A critical range of 19-20
+  const nineteen: d20.RandomSource = { next: () => 0.9 };
+  expect(d20.roll('1d20', { random: nineteen }).isCritical()).toBe(false);
+  expect(d20.roll('1d20', { random: nineteen }).isCritical({ critical: 19 })).toBe(true);
+
+  // Only the natural faces count, regardless of mi and ma
+  expect(d20.roll('1d20mi20', { random: nineteen }).isCritical()).toBe(false);
+  expect(d20.roll('1d20ma19', { random: highest }).isCritical()).toBe(true);
+  expect(d20.roll('1d20mi2', { random: lowest }).isFumble()).toBe(true);
+
+  const die = (critical as d20.RolledBinOp).left as d20.RolledDice;
+  expect(die.dice[0].isMaxFace()).toBe(true);
+  expect(die.dice[0].isMinFace()).toBe(false);
+});
+
+test('test advantage', () => {
+  // Rolls 5, 15 and 10 on a d20
+  const values = [0.2, 0.7, 0.45];
+  const sequence = (): d20.RandomSource => {
+    let index = 0;
+    return { next: () => values[index++ % values.length] };
+  };
+
+  const advantage = d20.roll('adv(1d20 + 5, 3)', { random: sequence() }) as d20.RolledAdvantage;
+  expect(advantage.rolls.map((roll) => roll.total())).toEqual([10, 20, 15]);
+  expect(advantage.total()).toBe(20);
+  expect(advantage.chosen()).toBe(advantage.rolls[1]);
+  expect(advantage.toString()).toBe('adv([5] + 5, [15] + 5, [10] + 5)');
+  expect(advantage.expression()).toBe('adv(1d20 + 5, 3)');
+
+  const disadvantage = d20.roll('1d20 + 5 # attack', { random: sequence(), advantage: { mode: 'disadvantage' } });
+  expect(disadvantage.total()).toBe(10);
+  expect(disadvantage.toString()).toBe('dis([5] + 5, [15] + 5) # attack');
+});
+
+test('test roll limits', () => {
+  expect(() => d20.roll('10d6', { limits: { maxDice: 10 } })).not.toThrow();
+  expect(() => d20.roll('11d6', { limits: { maxDice: 10 } })).toThrow(d20.TooManyDiceError);
+  expect(() => d20.roll('1d20 + 1d100', { limits: { maxSides: 20 } })).toThrow(d20.TooManySidesError);
+
+  // Dice with huge numbers of sides are cheap to parse, so the limit is reached right away
+  expect(() => d20.roll('1d1000000000', { limits: { maxSides: 100 } })).toThrow(d20.TooManySidesError);
+  expect(d20.roll('2d1000000000').total()).toBeLessThanOrEqual(2_000_000_000);
+  expect(() => d20.roll('10d6', { limits: { maxRolls: 5 } })).toThrow(d20.TooManyRollsError);
+  expect(() => d20.roll('1d20', { limits: { maxLength: 3 } })).toThrow(d20.ExpressionTooLongError);
+
+  // Rolls 6, 6, 6 and 1, exploding three times in a row
+  const values = [0.99, 0.99, 0.99, 0];
+  let index = 0;
+  const exploding: d20.RandomSource = { next: () => values[index++] };
+  expect(d20.roll('1d6e6', { random: exploding, limits: { maxExplodeDepth: 3, maxRolls: 4 } }).total()).toBe(19);
+
+  // Always rolls the highest face, so the dice keep exploding
+  const highest: d20.RandomSource = { next: () => 0.99 };
+  try {
+    d20.roll('1d4 + 1d6e6', { random: highest, limits: { maxExplodeDepth: 3 } });
+    expect.unreachable();
+  } catch (error) {
+    expect(error).toBeInstanceOf(d20.ExplodeDepthError);
+    expect(error).toBeInstanceOf(d20.TooManyRollsError);
+    expect((error as d20.ExplodeDepthError).node?.toString()).toBe('1d6e6');
+  }
+});
+
+test('test roll limits per roll and per session', () => {
+  // The limits apply to every roll separately, so a roller can be used indefinitely
+  const roller = new d20.Roller({ seed: 3, limits: { maxRolls: 4 } });
+  for (let i = 0; i < 10; i++) {
+    expect(roller.roll(d20.parse('4d6')).draws).toBe(4);
+  }
+  expect(() => roller.roll(d20.parse('5d6'))).toThrow(d20.TooManyRollsError);
+  expect(roller.roll(d20.parse('2d6 + 2d6')).draws).toBe(4);
+
+  const session = new d20.Roller({ seed: 3, limits: { maxRolls: 4 }, limitScope: 'session' });
+  expect(session.roll(d20.parse('3d6')).draws).toBe(3);
+  expect(session.roll(d20.parse('1d6')).draws).toBe(1);
+  expect(() => session.roll(d20.parse('1d6'))).toThrow(d20.TooManyRollsError);
+
+  // Rerolls and explosions are drawn from the random source as well
+  const lowest: d20.RandomSource = { next: () => 0 };
+  expect(d20.roll('4d6ro1', { random: lowest }).draws).toBe(8);
+  expect(d20.roll('1d20 + 5', { random: lowest }).draws).toBe(1);
+});
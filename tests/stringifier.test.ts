@@ -0,0 +1,47 @@
+import { expect, test } from 'vitest';
+
+import * as d20 from '../src';
+import { HtmlStringifier, MarkdownStringifier, PlainStringifier } from '../src/stringifier';
+
+// Rolls the highest face for every die
+const highest: d20.RandomSource = { next: () => 0.999999 };
+// Rolls the lowest face for every die
+const lowest: d20.RandomSource = { next: () => 0 };
+
+test('test plain stringifier', () => {
+  const roll = d20.roll('1d20 + 5', { random: highest });
+  expect(new PlainStringifier().stringify(roll)).toBe('1d20 (20) + 5 = 25');
+});
+
+test('test markdown stringifier', () => {
+  const critical = d20.roll('1d20 + 5', { random: highest });
+  expect(new MarkdownStringifier().stringify(critical)).toBe('1d20 (**20**) + 5 = `25`');
+
+  const dropped = d20.roll('2d20kh1 - (3)', { random: lowest });
+  expect(new MarkdownStringifier().stringify(dropped)).toBe('2d20kh1 (**1**, ~~**1**~~) - (3) = `-2`');
+});
+
+test('test html stringifier', () => {
+  const roll = d20.roll('2d6p<7 >= 2', { random: highest });
+  expect(new HtmlStringifier().stringify(roll)).toBe('2d6p&lt;7 (<del><strong>6</strong></del>, <del><strong>6</strong></del>) &gt;= 2 = <code>0</code>');
+});
+
+test('test custom face styling', () => {
+  const stringifier = new MarkdownStringifier({
+    maxFace: (text) => `${text}!`,
+    minFace: (text, die) => `${text}/${die.sides}`,
+  });
+
+  expect(stringifier.stringify(d20.roll('1d20', { random: highest }))).toBe('1d20 (20!) = `20`');
+  expect(stringifier.stringify(d20.roll('1d20', { random: lowest }))).toBe('1d20 (1/20) = `1`');
+});
+
+test('test custom faces stringifier', () => {
+  expect(new MarkdownStringifier().stringify(d20.roll('2dF', { random: highest }))).toBe('2dF (**1**, **1**) = `2`');
+  expect(new MarkdownStringifier().stringify(d20.roll('1d{3,5}', { random: lowest }))).toBe('1d{3,5} (**3**) = `3`');
+});
+
+test('test annotated stringifier', () => {
+  const roll = d20.roll('1d20 [attack] + 5 [proficiency] # to hit', { random: highest });
+  expect(new PlainStringifier().stringify(roll)).toBe('1d20 (20) [attack] + 5 [proficiency] = 25 # to hit');
+});
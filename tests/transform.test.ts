@@ -0,0 +1,49 @@
+import { expect, test } from 'vitest';
+
+import * as d20 from '../src';
+
+test('test transform copies the expression', () => {
+  const ast = d20.parse('(1d20 [hit], 3)kh1 + max(str, 2) # attack');
+  const copy = d20.transformAST(ast, (node) => node);
+
+  expect(copy).not.toBe(ast);
+  expect(copy.toString()).toBe(ast.toString());
+});
+
+test('test critical damage doubling dice', () => {
+  const critical = d20.criticalDamage(d20.parse('2d6 + 1d8 + 4'));
+  expect(critical.toString()).toBe('4d6 + 2d8 + 4');
+
+  // The original expression is left untouched
+  const ast = d20.parse('4d6kh3 [fire] - 1d4ro1 # fireball');
+  expect(d20.criticalDamage(ast, 'double-dice').toString()).toBe('8d6kh6 [fire] - 2d4ro1 # fireball');
+  expect(ast.toString()).toBe('4d6kh3 [fire] - 1d4ro1 # fireball');
+});
+
+test('test critical damage doubling total', () => {
+  const critical = d20.criticalDamage(d20.parse('2d6 + 4 # longsword'), 'double-total');
+  expect(critical.toString()).toBe('2 * (2d6 + 4) # longsword');
+  expect(d20.Distribution.fromAST(critical).mean()).toBeCloseTo(22);
+});
+
+test('test critical damage maximizing dice', () => {
+  const critical = d20.criticalDamage(d20.parse('2d6 [slashing] + 4'), 'max-dice');
+  expect(critical.toString()).toBe('(2d6mi6 + 2d6) [slashing] + 4');
+
+  const distribution = d20.Distribution.fromAST(critical);
+  expect(distribution.min()).toEqual(18);
+  expect(distribution.max()).toEqual(28);
+
+  // The maximized dice are limited, but not rerolled
+  expect(d20.criticalDamage(d20.parse('1d6ma4ro1'), 'max-dice').toString()).toBe('(1d6mi6ma4 + 1d6ma4ro1)');
+
+  const roll = new d20.Roller().roll(critical);
+  expect(roll.annotationTotals().get('slashing')).toBe(roll.total() - 4);
+});
+
+test('test rolling an expression with advantage', () => {
+  const ast = d20.parse('1d20 + 5 # attack');
+  expect(d20.withAdvantage(ast, { mode: 'advantage' }).toString()).toBe('adv(1d20 + 5) # attack');
+  expect(d20.withAdvantage(ast, { mode: 'disadvantage', count: 3 }).toString()).toBe('dis(1d20 + 5, 3) # attack');
+  expect(ast.toString()).toBe('1d20 + 5 # attack');
+});